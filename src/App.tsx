@@ -11,6 +11,7 @@ import { Dashboard } from './pages/Dashboard'
 import { Forms } from './pages/Forms'
 import { Responses } from './pages/Responses'
 import { CreateForm } from './pages/CreateForm'
+import { ImportForm } from './pages/ImportForm'
 import { PublicForm } from './pages/PublicForm'
 import { FormResponses } from './pages/FormResponses'
 import { EditForm } from './pages/EditForm'
@@ -50,6 +51,14 @@ function App() {
                   </ProtectedRoute>
                 }
               />
+              <Route
+                path="/forms/import"
+                element={
+                  <ProtectedRoute>
+                    <ImportForm />
+                  </ProtectedRoute>
+                }
+              />
               <Route
                 path="/responses"
                 element={
@@ -75,6 +84,7 @@ function App() {
                 }
               />
               <Route path="/form/:formId" element={<PublicForm />} />
+              <Route path="/form/:formId/response/:editToken" element={<PublicForm />} />
             </Routes>
           </div>
         </Router>
@@ -0,0 +1,94 @@
+import React from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import { NpsEntry, computeNpsFromEntries, computeNpsTrend } from '../../lib/nps'
+
+interface NpsSummaryProps {
+  title: string
+  subtitle?: string
+  entries: NpsEntry[]
+}
+
+const percent = (count: number, total: number) => (total > 0 ? Math.round((count / total) * 100) : 0)
+
+const scoreColor = (score: number) => {
+  if (score >= 50) return 'text-green-600 dark:text-green-400'
+  if (score >= 0) return 'text-yellow-600 dark:text-yellow-400'
+  return 'text-red-600 dark:text-red-400'
+}
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00`).toLocaleDateString('en-US', { month: 'short', year: 'numeric' })
+
+export const NpsSummary: React.FC<NpsSummaryProps> = ({ title, subtitle, entries }) => {
+  const result = computeNpsFromEntries(entries)
+  const trend = computeNpsTrend(entries)
+
+  const segments = [
+    { label: 'Promoters', count: result.promoters, color: 'bg-green-500' },
+    { label: 'Passives', count: result.passives, color: 'bg-yellow-400' },
+    { label: 'Detractors', count: result.detractors, color: 'bg-red-500' },
+  ]
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{title}</CardTitle>
+        {subtitle && <p className="text-sm text-muted-foreground">{subtitle}</p>}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-end gap-3">
+          <p className={`text-4xl font-bold ${scoreColor(result.score)}`}>{result.score}</p>
+          <p className="pb-1 text-sm text-muted-foreground">
+            NPS from {result.total} answer{result.total === 1 ? '' : 's'}
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex h-3 rounded-full overflow-hidden bg-muted">
+            {segments.map(segment => (
+              <div
+                key={segment.label}
+                className={segment.color}
+                style={{ width: `${percent(segment.count, result.total)}%` }}
+              />
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-4 text-sm">
+            {segments.map(segment => (
+              <span key={segment.label} className="inline-flex items-center text-muted-foreground">
+                <span className={`inline-block h-2.5 w-2.5 rounded-full mr-1.5 ${segment.color}`} />
+                {segment.label}: {segment.count} ({percent(segment.count, result.total)}%)
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {trend.length > 1 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-foreground">Trend by month</p>
+            {trend.map(point => (
+              <div key={point.month} className="flex items-center space-x-3">
+                <div className="w-20 text-sm text-muted-foreground">{formatMonth(point.month)}</div>
+                {/* -100..100 drawn around a centre line */}
+                <div className="flex-1 bg-muted rounded-full h-4 relative overflow-hidden">
+                  <div
+                    className={`absolute h-full ${point.result.score >= 0 ? 'bg-green-500' : 'bg-red-500'}`}
+                    style={{
+                      left: point.result.score >= 0 ? '50%' : `${50 + point.result.score / 2}%`,
+                      width: `${Math.abs(point.result.score) / 2}%`,
+                    }}
+                  />
+                  <div className="absolute left-1/2 h-full w-px bg-border" />
+                </div>
+                <div className={`w-10 text-right text-sm font-medium ${scoreColor(point.result.score)}`}>
+                  {point.result.score}
+                </div>
+                <div className="w-12 text-right text-xs text-muted-foreground">n={point.result.total}</div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
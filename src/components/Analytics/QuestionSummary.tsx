@@ -0,0 +1,164 @@
+import React from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import { Question } from '../../types/form'
+import { AnswerCount, ChoiceSummary, ScaleSummary, TextSummary, summarizeQuestion } from '../../lib/analytics'
+
+interface QuestionSummaryProps {
+  question: Pick<Question, 'question_text' | 'question_type' | 'options' | 'settings'>
+  number: number
+  values: AnswerCount[]
+  respondents: number
+  // Latest answers of a text question
+  texts?: string[]
+  isRemoved?: boolean
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+const ChoiceChart: React.FC<{ summary: ChoiceSummary }> = ({ summary }) => (
+  <div className="space-y-2">
+    {summary.options.map(({ option, count, percent }) => (
+      <div key={option} className="flex items-center space-x-3">
+        <div className="w-40 text-sm text-muted-foreground truncate" title={option}>{option}</div>
+        <div className="flex-1 bg-muted rounded-full h-4 overflow-hidden">
+          <div
+            className="bg-primary h-full rounded-full transition-all duration-500 ease-out"
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+        <div className="w-20 text-sm text-right text-foreground">
+          {count} ({Math.round(percent)}%)
+        </div>
+      </div>
+    ))}
+  </div>
+)
+
+const ScaleHistogram: React.FC<{ summary: ScaleSummary }> = ({ summary }) => {
+  const maxCount = Math.max(...summary.distribution.map(point => point.count), 1)
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-6">
+        <div>
+          <p className="text-sm text-muted-foreground">Mean</p>
+          <p className="text-2xl font-bold text-foreground">
+            {summary.mean ?? '—'}
+            <span className="text-sm font-normal text-muted-foreground">/{summary.scale.max}</span>
+          </p>
+        </div>
+        <div>
+          <p className="text-sm text-muted-foreground">Median</p>
+          <p className="text-2xl font-bold text-foreground">
+            {summary.median ?? '—'}
+            <span className="text-sm font-normal text-muted-foreground">/{summary.scale.max}</span>
+          </p>
+        </div>
+      </div>
+
+      <div className="flex items-end gap-1 h-32">
+        {summary.distribution.map(point => (
+          <div key={point.value} className="flex-1 flex flex-col items-center justify-end h-full">
+            <span className="text-xs text-muted-foreground mb-1">{point.count || ''}</span>
+            <div
+              className="w-full bg-primary rounded-t transition-all duration-500 ease-out"
+              style={{ height: `${(point.count / maxCount) * 100}%` }}
+              title={`${point.value}: ${point.count}`}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-1">
+        {summary.distribution.map(point => (
+          <span key={point.value} className="flex-1 text-center text-xs text-muted-foreground">{point.value}</span>
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{summary.scale.minLabel}</span>
+        <span>{summary.scale.maxLabel}</span>
+      </div>
+    </div>
+  )
+}
+
+const TextAnswers: React.FC<{ summary: TextSummary; respondents: number }> = ({ summary, respondents }) => {
+  // Highlight the frequent words inside each answer
+  const pattern = summary.words.length > 0
+    ? new RegExp(`(?<![\\p{L}\\p{N}'])(${summary.words.map(word => escapeRegExp(word.value)).join('|')})(?![\\p{L}\\p{N}'])`, 'giu')
+    : null
+  const isFrequent = (part: string) => summary.words.some(word => word.value === part.toLowerCase())
+
+  return (
+    <div className="space-y-4">
+      {summary.words.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {summary.words.map(word => (
+            <span key={word.value} className="px-2 py-0.5 text-sm rounded-full bg-primary/10 text-primary">
+              {word.value} <span className="text-xs">×{word.count}</span>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {summary.answers.length < respondents && (
+        <p className="text-xs text-muted-foreground">
+          Showing the latest {summary.answers.length} of {respondents} answers
+        </p>
+      )}
+
+      <div className="max-h-64 overflow-y-auto space-y-2 pr-2 print:max-h-none print:overflow-visible">
+        {summary.answers.map((answer, index) => (
+          <p key={index} className="text-sm text-foreground bg-muted/50 rounded-lg px-3 py-2">
+            {pattern
+              ? answer.split(pattern).map((part, partIndex) =>
+                  isFrequent(part)
+                    ? <mark key={partIndex} className="bg-yellow-200 dark:bg-yellow-900/50 text-foreground rounded px-0.5">{part}</mark>
+                    : <React.Fragment key={partIndex}>{part}</React.Fragment>
+                )
+              : answer}
+          </p>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export const QuestionSummary: React.FC<QuestionSummaryProps> = ({
+  question,
+  number,
+  values,
+  respondents,
+  texts = [],
+  isRemoved = false,
+}) => {
+  const summary = summarizeQuestion(question, values, respondents, texts)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">
+          {number}. {question.question_text}
+          {isRemoved && (
+            <span className="ml-2 px-2 py-0.5 text-xs font-normal rounded-full bg-muted text-muted-foreground">
+              Removed
+            </span>
+          )}
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          {respondents} answer{respondents === 1 ? '' : 's'}
+        </p>
+      </CardHeader>
+      <CardContent>
+        {respondents === 0 ? (
+          <p className="text-sm text-muted-foreground">No answers yet</p>
+        ) : summary.kind === 'choice' ? (
+          <ChoiceChart summary={summary} />
+        ) : summary.kind === 'scale' ? (
+          <ScaleHistogram summary={summary} />
+        ) : (
+          <TextAnswers summary={summary} respondents={respondents} />
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,130 @@
+import React from 'react'
+import { Question } from '../../types/form'
+import { AnswerCount } from '../../lib/analytics'
+import { DailyResponseCount } from '../../lib/aggregates'
+import { NpsEntry } from '../../lib/nps'
+import { NpsSummary } from './NpsSummary'
+import { QuestionSummary } from './QuestionSummary'
+
+// Days of response counts shown in the report
+export const REPORT_DAYS = 30
+
+// Text answers quoted per question; the page itself shows more
+const REPORT_TEXT_ANSWERS = 5
+
+export interface ReportQuestion {
+  question: Pick<Question, 'id' | 'question_text' | 'question_type' | 'options' | 'settings'>
+  values: AnswerCount[]
+  respondents: number
+  texts: string[]
+  isRemoved: boolean
+}
+
+interface ResponseReportProps {
+  title: string
+  description: string
+  // Which responses the report covers, e.g. "All versions" or "Version 2"
+  scope: string
+  totalResponses: number
+  avgRating: string | null
+  daily: DailyResponseCount[]
+  npsQuestions: { question_id: string; question_text: string; entries: NpsEntry[] }[]
+  questions: ReportQuestion[]
+}
+
+const formatDay = (day: string) =>
+  new Date(`${day}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+
+const ResponsesOverTime: React.FC<{ daily: DailyResponseCount[] }> = ({ daily }) => {
+  const maxCount = Math.max(...daily.map(day => day.response_count), 1)
+
+  return (
+    <div>
+      <div className="flex items-end gap-0.5 h-32 border-b">
+        {daily.map(day => (
+          <div key={day.day} className="flex-1 flex flex-col items-center justify-end h-full">
+            <span className="text-[10px] text-muted-foreground">{day.response_count || ''}</span>
+            <div
+              className="w-full bg-primary rounded-t"
+              style={{ height: `${(day.response_count / maxCount) * 100}%` }}
+            />
+          </div>
+        ))}
+      </div>
+      {daily.length > 0 && (
+        <div className="flex justify-between mt-1 text-xs text-muted-foreground">
+          <span>{formatDay(daily[0].day)}</span>
+          <span>{formatDay(daily[daily.length - 1].day)}</span>
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Print-only report of a form's results. It stays hidden on screen and replaces
+// the page when printing, so "Save as PDF" in the print dialog produces the PDF.
+export const ResponseReport: React.FC<ResponseReportProps> = ({
+  title,
+  description,
+  scope,
+  totalResponses,
+  avgRating,
+  daily,
+  npsQuestions,
+  questions,
+}) => (
+  <div className="hidden print:block space-y-8 text-foreground">
+    <header className="border-b pb-6">
+      <p className="text-sm text-muted-foreground">
+        Response report · {scope} · Generated {new Date().toLocaleDateString('en-US', { dateStyle: 'long' })}
+      </p>
+      <h1 className="text-3xl font-bold mt-1">{title}</h1>
+      {description && <p className="text-muted-foreground mt-2">{description}</p>}
+
+      <div className="flex gap-12 mt-6">
+        <div>
+          <p className="text-sm text-muted-foreground">Total responses</p>
+          <p className="text-2xl font-bold">{totalResponses}</p>
+        </div>
+        {avgRating && (
+          <div>
+            <p className="text-sm text-muted-foreground">Average rating</p>
+            <p className="text-2xl font-bold">{avgRating}</p>
+          </div>
+        )}
+      </div>
+    </header>
+
+    <section className="break-inside-avoid">
+      <h2 className="text-xl font-semibold mb-4">Responses over the last {REPORT_DAYS} days</h2>
+      <ResponsesOverTime daily={daily} />
+    </section>
+
+    {npsQuestions.length > 0 && (
+      <section className="space-y-4">
+        <h2 className="text-xl font-semibold">Net Promoter Score</h2>
+        {npsQuestions.map(question => (
+          <div key={question.question_id} className="break-inside-avoid">
+            <NpsSummary title={question.question_text} entries={question.entries} />
+          </div>
+        ))}
+      </section>
+    )}
+
+    <section className="space-y-4">
+      <h2 className="text-xl font-semibold break-after-avoid">Questions</h2>
+      {questions.map((item, index) => (
+        <div key={item.question.id} className="break-inside-avoid">
+          <QuestionSummary
+            question={item.question}
+            number={index + 1}
+            values={item.values}
+            respondents={item.respondents}
+            texts={item.texts.slice(0, REPORT_TEXT_ANSWERS)}
+            isRemoved={item.isRemoved}
+          />
+        </div>
+      ))}
+    </section>
+  </div>
+)
@@ -0,0 +1,129 @@
+import React from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import { FormVersion, Question } from '../../types/form'
+import { getAnswerableQuestions } from '../../lib/formPages'
+import { AnswerCount, summarizeQuestion } from '../../lib/analytics'
+import { AnswerDistributionRow, VersionResponseCount } from '../../lib/aggregates'
+import { computeNpsFromEntries, parseNpsScore } from '../../lib/nps'
+
+interface VersionComparisonProps {
+  versions: FormVersion[]
+  distribution: AnswerDistributionRow[]
+  responseCounts: VersionResponseCount[]
+}
+
+const summarizeAnswers = (question: Question, rows: AnswerDistributionRow[]) => {
+  const respondents = rows[0]?.answers_total || 0
+  if (respondents === 0) return 'No answers'
+
+  const values: AnswerCount[] = rows
+    .filter(row => row.value !== null)
+    .map(row => ({ value: row.value as string, count: row.answer_count }))
+
+  if (question.question_type === 'nps') {
+    const entries = values.flatMap(({ value, count }) => {
+      const score = parseNpsScore(value)
+      return score === null ? [] : [{ score, count }]
+    })
+    if (entries.length === 0) return 'No scores'
+    return `NPS ${computeNpsFromEntries(entries).score}`
+  }
+
+  const summary = summarizeQuestion(question, values, respondents)
+
+  if (summary.kind === 'scale') {
+    if (summary.mean === null) return 'No ratings'
+    return `Avg ${summary.mean}/${summary.scale.max}`
+  }
+
+  if (summary.kind === 'choice') {
+    const top = [...summary.options].sort((a, b) => b.count - a.count)[0]
+    if (!top || top.count === 0) return 'No selections'
+    const suffix = question.question_type === 'checkbox' ? '% selected' : '%'
+    return `${top.option} (${Math.round(top.percent)}${suffix})`
+  }
+
+  return `${respondents} text answer${respondents === 1 ? '' : 's'}`
+}
+
+export const VersionComparison: React.FC<VersionComparisonProps> = ({ versions, distribution, responseCounts }) => {
+  // Questions keep their id across versions, so match rows by id. Latest wording and
+  // order first, then questions that only exist in older versions.
+  const newestFirst = [...versions].sort((a, b) => b.version_number - a.version_number)
+  const questionIds: string[] = []
+  newestFirst.forEach(version => {
+    getAnswerableQuestions(version.questions).forEach(question => {
+      if (!questionIds.includes(question.id)) questionIds.push(question.id)
+    })
+  })
+
+  const columns = [...versions].sort((a, b) => a.version_number - b.version_number)
+
+  const rowsFor = (versionId: string, questionId: string) =>
+    distribution.filter(row => row.form_version_id === versionId && row.question_id === questionId)
+
+  const responseCount = (versionId: string) =>
+    responseCounts.find(count => count.form_version_id === versionId)?.response_count || 0
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Compare Versions</CardTitle>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-left">
+              <th className="py-2 pr-4 font-medium text-muted-foreground">Question</th>
+              {columns.map(version => (
+                <th key={version.id} className="py-2 px-4 font-medium text-muted-foreground whitespace-nowrap">
+                  v{version.version_number}
+                  <span className="block text-xs font-normal">
+                    {new Date(version.created_at).toLocaleDateString()} ·{' '}
+                    {responseCount(version.id)} responses
+                  </span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {questionIds.map(questionId => {
+              const latest = newestFirst
+                .map(version => version.questions.find(q => q.id === questionId))
+                .find(Boolean) as Question
+
+              return (
+                <tr key={questionId} className="border-b last:border-0 align-top">
+                  <td className="py-3 pr-4 font-medium text-foreground">{latest.question_text}</td>
+                  {columns.map((version, index) => {
+                    const question = version.questions.find(q => q.id === questionId)
+                    if (!question) {
+                      return <td key={version.id} className="py-3 px-4 text-muted-foreground">—</td>
+                    }
+
+                    const previous = columns[index - 1]?.questions.find(q => q.id === questionId)
+                    const reworded = previous !== undefined && previous.question_text !== question.question_text
+
+                    return (
+                      <td key={version.id} className="py-3 px-4">
+                        <p className="text-foreground">{summarizeAnswers(question, rowsFor(version.id, questionId))}</p>
+                        {reworded && (
+                          <p className="mt-1 text-xs text-muted-foreground">
+                            <span className="px-1.5 py-0.5 mr-1 rounded bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-400">
+                              Reworded
+                            </span>
+                            “{question.question_text}”
+                          </p>
+                        )}
+                      </td>
+                    )
+                  })}
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </CardContent>
+    </Card>
+  )
+}
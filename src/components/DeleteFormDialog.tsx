@@ -0,0 +1,48 @@
+import React from 'react'
+import { Trash2 } from 'lucide-react'
+import { Button } from './ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog'
+
+interface DeleteFormDialogProps {
+  // The form to delete; the dialog is open while one is set
+  form: { title: string; responses: number } | null
+  deleting: boolean
+  onCancel: () => void
+  onConfirm: () => void
+}
+
+export const DeleteFormDialog: React.FC<DeleteFormDialogProps> = ({ form, deleting, onCancel, onConfirm }) => (
+  <Dialog open={!!form} onOpenChange={open => !open && onCancel()}>
+    <DialogContent>
+      <DialogHeader>
+        <DialogTitle>Delete "{form?.title}" permanently?</DialogTitle>
+        <DialogDescription>
+          The form, its questions and its version history will be deleted. This cannot be undone.
+        </DialogDescription>
+      </DialogHeader>
+
+      {form && form.responses > 0 && (
+        <div className="p-4 bg-destructive/10 border border-destructive/20 text-destructive rounded-lg text-sm">
+          {form.responses} response{form.responses === 1 ? '' : 's'} will be lost. Export them first if you need to keep them.
+        </div>
+      )}
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onCancel} disabled={deleting}>
+          Cancel
+        </Button>
+        <Button variant="destructive" onClick={onConfirm} disabled={deleting} className="flex items-center">
+          <Trash2 className="h-4 w-4 mr-2" />
+          {deleting ? 'Deleting...' : 'Delete permanently'}
+        </Button>
+      </DialogFooter>
+    </DialogContent>
+  </Dialog>
+)
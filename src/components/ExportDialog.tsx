@@ -0,0 +1,74 @@
+import React, { useState } from 'react'
+import { Download } from 'lucide-react'
+import { Button } from './ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog'
+import { EXPORT_FORMATS, ExportFormat } from '../lib/responseExport'
+
+interface ExportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Number of responses that will be exported, when known
+  count: number | null
+  exporting: boolean
+  onExport: (format: ExportFormat) => void
+}
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ open, onOpenChange, count, exporting, onExport }) => {
+  const [format, setFormat] = useState<ExportFormat>('csv')
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export responses</DialogTitle>
+          <DialogDescription>
+            {count === null
+              ? 'Files are generated in your browser.'
+              : `${count} response${count === 1 ? '' : 's'} will be exported. Files are generated in your browser.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div role="radiogroup" className="space-y-2">
+          {EXPORT_FORMATS.map(option => (
+            <label
+              key={option.value}
+              className={`flex items-start p-3 rounded-lg border cursor-pointer transition-colors ${
+                format === option.value ? 'border-primary bg-primary/5' : 'hover:bg-muted'
+              }`}
+            >
+              <input
+                type="radio"
+                name="export-format"
+                value={option.value}
+                checked={format === option.value}
+                onChange={() => setFormat(option.value)}
+                className="mt-1 mr-3"
+              />
+              <span>
+                <span className="block font-medium text-foreground">{option.label}</span>
+                <span className="block text-sm text-muted-foreground">{option.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => onExport(format)} disabled={exporting || count === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            {exporting ? 'Exporting...' : 'Export'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,16 +1,24 @@
 import React from 'react'
+import { GitBranch } from 'lucide-react'
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
 import { Input } from '../ui/input'
 import { Textarea } from '../ui/textarea'
 import { Label } from '../ui/label'
 import { Button } from '../ui/button'
+import { RatingInput } from '../RatingScale'
 import { FormData } from '../../types/form'
+import { describeLogic, describeSelectionLimits } from '../../lib/formLogic'
+import { getAnswerableQuestions, isPageBreak } from '../../lib/formPages'
+import { isScaleQuestion } from '../../lib/rating'
 
 interface FormPreviewProps {
   formData: FormData
 }
 
 export const FormPreview: React.FC<FormPreviewProps> = ({ formData }) => {
+  const orderedQuestions = [...formData.questions].sort((a, b) => a.order_index - b.order_index)
+  const answerableQuestions = getAnswerableQuestions(orderedQuestions)
+
   return (
     <div className="space-y-6">
       <Card>
@@ -26,17 +34,31 @@ export const FormPreview: React.FC<FormPreviewProps> = ({ formData }) => {
               No questions added yet. Add questions to see the preview.
             </div>
           ) : (
-            formData.questions
-              .sort((a, b) => a.order_index - b.order_index)
-              .map((question, index) => (
+            orderedQuestions.map((question) => isPageBreak(question) ? (
+                <div key={question.id} className="pt-4 border-t-2 border-dashed">
+                  <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                    Page {orderedQuestions.filter(q => isPageBreak(q) && q.order_index <= question.order_index).length + 1}
+                  </p>
+                  {question.question_text && (
+                    <h3 className="text-lg font-semibold text-foreground">{question.question_text}</h3>
+                  )}
+                </div>
+              ) : (
                 <div key={question.id} className="space-y-2">
                   <Label className="text-base font-medium">
-                    {index + 1}. {question.question_text}
+                    {answerableQuestions.indexOf(question) + 1}. {question.question_text}
                     {question.is_required && (
                       <span className="text-destructive ml-1">*</span>
                     )}
                   </Label>
 
+                  {describeLogic(question, formData.questions).map((description) => (
+                    <p key={description} className="flex items-center text-xs text-muted-foreground">
+                      <GitBranch className="h-3 w-3 mr-1" />
+                      {description}
+                    </p>
+                  ))}
+
                   {question.question_type === 'text' && (
                     <Textarea
                       placeholder="Your answer..."
@@ -61,19 +83,25 @@ export const FormPreview: React.FC<FormPreviewProps> = ({ formData }) => {
                     </div>
                   )}
 
-                  {question.question_type === 'rating' && (
-                    <div className="flex space-x-2">
-                      {[1, 2, 3, 4, 5].map((rating) => (
-                        <button
-                          key={rating}
-                          disabled
-                          className="h-8 w-8 rounded border border-input bg-muted text-sm"
-                        >
-                          {rating}
-                        </button>
+                  {question.question_type === 'checkbox' && (
+                    <div className="space-y-2">
+                      <p className="text-xs text-muted-foreground">{describeSelectionLimits(question)}</p>
+                      {question.options.map((option, optionIndex) => (
+                        <div key={optionIndex} className="flex items-center space-x-2">
+                          <input
+                            type="checkbox"
+                            disabled
+                            className="h-4 w-4"
+                          />
+                          <span className="text-sm">{option}</span>
+                        </div>
                       ))}
                     </div>
                   )}
+
+                  {isScaleQuestion(question) && (
+                    <RatingInput question={question} disabled compact />
+                  )}
                 </div>
               ))
           )}
@@ -1,5 +1,5 @@
 import React from 'react'
-import { Trash2, GripVertical, Plus, X } from 'lucide-react'
+import { Trash2, GripVertical, Plus, X, GitBranch, SeparatorHorizontal } from 'lucide-react'
 import { Button } from '../ui/button'
 import { Input } from '../ui/input'
 import { Label } from '../ui/label'
@@ -7,10 +7,24 @@ import { Textarea } from '../ui/textarea'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
 import { Switch } from '../ui/switch'
 import { Card, CardContent, CardHeader } from '../ui/card'
-import { Question } from '../../types/form'
+import {
+  LogicCondition,
+  LogicOperator,
+  LogicRule,
+  Question,
+  QuestionLogic,
+  QuestionSettings,
+  QuestionType,
+  RatingStyle,
+} from '../../types/form'
+import { LOGIC_OPERATORS } from '../../lib/formLogic'
+import { getAnswerableQuestions, isPageBreak } from '../../lib/formPages'
+import { DEFAULT_RATING_SETTINGS, RATING_PRESETS, findRatingScaleError, getRatingScale, isScaleQuestion } from '../../lib/rating'
 
 interface QuestionEditorProps {
   question: Question
+  // Every question in the form, used to offer earlier questions as logic sources
+  questions: Question[]
   onUpdate: (question: Question) => void
   onDelete: () => void
   onMoveUp: () => void
@@ -21,6 +35,7 @@ interface QuestionEditorProps {
 
 export const QuestionEditor: React.FC<QuestionEditorProps> = ({
   question,
+  questions,
   onUpdate,
   onDelete,
   onMoveUp,
@@ -48,6 +63,127 @@ export const QuestionEditor: React.FC<QuestionEditorProps> = ({
     updateQuestion({ options: newOptions })
   }
 
+  const changeType = (value: QuestionType) => {
+    if (value === 'page_break') {
+      // Page breaks only carry a section title
+      updateQuestion({ question_type: value, options: [], is_required: false, logic: {} })
+      return
+    }
+    updateQuestion({ question_type: value, options: value === 'text' ? [] : question.options })
+  }
+
+  const updateSettings = (updates: Partial<QuestionSettings>) => {
+    updateQuestion({ settings: { ...question.settings, ...updates } })
+  }
+
+  const parseLimit = (value: string) => {
+    const limit = parseInt(value)
+    return isNaN(limit) || limit < 1 ? null : limit
+  }
+
+  const parseScaleNumber = (value: string) => {
+    const number = parseFloat(value)
+    return isNaN(number) ? undefined : number
+  }
+
+  const ratingSettings = { ...DEFAULT_RATING_SETTINGS, ...question.settings }
+  const ratingScaleError = question.question_type === 'rating' ? findRatingScaleError(question.settings || {}) : null
+
+  const pageBreak = isPageBreak(question)
+  const hasOptions = question.question_type === 'multiple_choice' || question.question_type === 'checkbox'
+  const earlierQuestions = getAnswerableQuestions(questions)
+    .filter(q => q.order_index < question.order_index)
+    .sort((a, b) => a.order_index - b.order_index)
+  // Page breaks are not numbered, so count only the answerable questions up to this one
+  const questionNumber = earlierQuestions.length + 1
+  const numberOf = (q: Question) =>
+    getAnswerableQuestions(questions).filter(other => other.order_index <= q.order_index).length
+  const conditions = question.logic?.show_if || []
+  const skipRule = question.logic?.skip_to_end_if || null
+
+  const updateLogic = (updates: Partial<QuestionLogic>) => {
+    updateQuestion({ logic: { ...question.logic, ...updates } })
+  }
+
+  const addCondition = () => {
+    const source = earlierQuestions[earlierQuestions.length - 1]
+    if (!source) return
+    updateLogic({
+      show_if: [...conditions, { question_id: source.id, operator: 'equals', value: '' }]
+    })
+  }
+
+  const updateCondition = (index: number, updates: Partial<LogicCondition>) => {
+    const newConditions = [...conditions]
+    newConditions[index] = { ...newConditions[index], ...updates }
+    updateLogic({ show_if: newConditions })
+  }
+
+  const removeCondition = (index: number) => {
+    updateLogic({ show_if: conditions.filter((_, i) => i !== index) })
+  }
+
+  const renderRuleValue = (
+    source: Question | undefined,
+    rule: LogicRule,
+    onChange: (value: string) => void
+  ) => {
+    if (rule.operator === 'is_answered') return null
+
+    const sourceHasOptions = source?.question_type === 'multiple_choice' || source?.question_type === 'checkbox'
+    if (source && sourceHasOptions && source.options.some(opt => opt.trim())) {
+      return (
+        <Select value={rule.value} onValueChange={onChange}>
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder="Choose option" />
+          </SelectTrigger>
+          <SelectContent>
+            {source.options.filter(opt => opt.trim()).map(option => (
+              <SelectItem key={option} value={option}>{option}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )
+    }
+
+    if (source && isScaleQuestion(source)) {
+      return (
+        <Select value={rule.value} onValueChange={onChange}>
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder={source.question_type === 'nps' ? 'Score' : 'Rating'} />
+          </SelectTrigger>
+          <SelectContent>
+            {getRatingScale(source).values.map(rating => (
+              <SelectItem key={rating} value={rating.toString()}>{rating}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )
+    }
+
+    return (
+      <Input
+        value={rule.value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="Value"
+        className="flex-1"
+      />
+    )
+  }
+
+  const renderOperatorSelect = (rule: LogicRule, onChange: (operator: LogicOperator) => void) => (
+    <Select value={rule.operator} onValueChange={onChange}>
+      <SelectTrigger className="w-40">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {LOGIC_OPERATORS.map(op => (
+          <SelectItem key={op.value} value={op.value}>{op.label}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
   return (
     <Card className="relative">
       <CardHeader className="pb-4">
@@ -55,7 +191,14 @@ export const QuestionEditor: React.FC<QuestionEditorProps> = ({
           <div className="flex items-center space-x-2">
             <GripVertical className="h-4 w-4 text-muted-foreground cursor-move" />
             <span className="text-sm font-medium text-muted-foreground">
-              Question {question.order_index + 1}
+              {pageBreak ? (
+                <span className="flex items-center">
+                  <SeparatorHorizontal className="h-4 w-4 mr-1" />
+                  Page Break
+                </span>
+              ) : (
+                `Question ${questionNumber}`
+              )}
             </span>
           </div>
           <div className="flex items-center space-x-2">
@@ -90,12 +233,14 @@ export const QuestionEditor: React.FC<QuestionEditorProps> = ({
       </CardHeader>
       <CardContent className="space-y-4">
         <div className="space-y-2">
-          <Label htmlFor={`question-text-${question.id}`}>Question Text</Label>
+          <Label htmlFor={`question-text-${question.id}`}>
+            {pageBreak ? 'Section Title (Optional)' : 'Question Text'}
+          </Label>
           <Textarea
             id={`question-text-${question.id}`}
             value={question.question_text}
             onChange={(e) => updateQuestion({ question_text: e.target.value })}
-            placeholder="Enter your question..."
+            placeholder={pageBreak ? 'Title shown at the top of the next page...' : 'Enter your question...'}
             className="min-h-[60px]"
           />
         </div>
@@ -105,9 +250,7 @@ export const QuestionEditor: React.FC<QuestionEditorProps> = ({
             <Label htmlFor={`question-type-${question.id}`}>Question Type</Label>
             <Select
               value={question.question_type}
-              onValueChange={(value: 'text' | 'multiple_choice' | 'rating') =>
-                updateQuestion({ question_type: value, options: value === 'text' ? [] : question.options })
-              }
+              onValueChange={changeType}
             >
               <SelectTrigger>
                 <SelectValue />
@@ -115,24 +258,29 @@ export const QuestionEditor: React.FC<QuestionEditorProps> = ({
               <SelectContent>
                 <SelectItem value="text">Text Input</SelectItem>
                 <SelectItem value="multiple_choice">Multiple Choice</SelectItem>
-                <SelectItem value="rating">Rating (1-5)</SelectItem>
+                <SelectItem value="checkbox">Checkboxes (Multi-select)</SelectItem>
+                <SelectItem value="rating">Rating Scale</SelectItem>
+                <SelectItem value="nps">Net Promoter Score (0-10)</SelectItem>
+                <SelectItem value="page_break">Page Break</SelectItem>
               </SelectContent>
             </Select>
           </div>
 
-          <div className="flex items-center space-x-2 pt-6">
-            <Switch
-              id={`required-${question.id}`}
-              checked={question.is_required}
-              onCheckedChange={(checked) => updateQuestion({ is_required: checked })}
-            />
-            <Label htmlFor={`required-${question.id}`} className="text-sm">
-              Required
-            </Label>
-          </div>
+          {!pageBreak && (
+            <div className="flex items-center space-x-2 pt-6">
+              <Switch
+                id={`required-${question.id}`}
+                checked={question.is_required}
+                onCheckedChange={(checked) => updateQuestion({ is_required: checked })}
+              />
+              <Label htmlFor={`required-${question.id}`} className="text-sm">
+                Required
+              </Label>
+            </div>
+          )}
         </div>
 
-        {question.question_type === 'multiple_choice' && (
+        {hasOptions && (
           <div className="space-y-2">
             <div className="flex items-center justify-between">
               <Label>Options</Label>
@@ -171,9 +319,233 @@ export const QuestionEditor: React.FC<QuestionEditorProps> = ({
           </div>
         )}
 
+        {question.question_type === 'checkbox' && (
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor={`min-selections-${question.id}`}>Minimum Selections</Label>
+              <Input
+                id={`min-selections-${question.id}`}
+                type="number"
+                min={1}
+                value={question.settings?.min_selections ?? ''}
+                onChange={(e) => updateSettings({ min_selections: parseLimit(e.target.value) })}
+                placeholder="No minimum"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`max-selections-${question.id}`}>Maximum Selections</Label>
+              <Input
+                id={`max-selections-${question.id}`}
+                type="number"
+                min={1}
+                value={question.settings?.max_selections ?? ''}
+                onChange={(e) => updateSettings({ max_selections: parseLimit(e.target.value) })}
+                placeholder="No maximum"
+              />
+            </div>
+          </div>
+        )}
+
         {question.question_type === 'rating' && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Preset</Label>
+                <Select
+                  value=""
+                  onValueChange={(label) => {
+                    const preset = RATING_PRESETS.find(p => p.label === label)
+                    if (preset) updateSettings(preset.settings)
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Apply a preset..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RATING_PRESETS.map(preset => (
+                      <SelectItem key={preset.label} value={preset.label}>{preset.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Display Style</Label>
+                <Select
+                  value={ratingSettings.rating_style}
+                  onValueChange={(value: RatingStyle) => updateSettings({ rating_style: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="numbers">Numbers</SelectItem>
+                    <SelectItem value="stars">Stars</SelectItem>
+                    <SelectItem value="emoji">Emoji</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor={`rating-min-${question.id}`}>Minimum</Label>
+                <Input
+                  id={`rating-min-${question.id}`}
+                  type="number"
+                  value={ratingSettings.rating_min}
+                  onChange={(e) => updateSettings({ rating_min: parseScaleNumber(e.target.value) })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={`rating-max-${question.id}`}>Maximum</Label>
+                <Input
+                  id={`rating-max-${question.id}`}
+                  type="number"
+                  value={ratingSettings.rating_max}
+                  onChange={(e) => updateSettings({ rating_max: parseScaleNumber(e.target.value) })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={`rating-step-${question.id}`}>Step</Label>
+                <Input
+                  id={`rating-step-${question.id}`}
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={ratingSettings.rating_step}
+                  onChange={(e) => updateSettings({ rating_step: parseScaleNumber(e.target.value) })}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor={`rating-min-label-${question.id}`}>Minimum Label</Label>
+                <Input
+                  id={`rating-min-label-${question.id}`}
+                  value={ratingSettings.min_label}
+                  onChange={(e) => updateSettings({ min_label: e.target.value })}
+                  placeholder="e.g. Poor"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={`rating-max-label-${question.id}`}>Maximum Label</Label>
+                <Input
+                  id={`rating-max-label-${question.id}`}
+                  value={ratingSettings.max_label}
+                  onChange={(e) => updateSettings({ max_label: e.target.value })}
+                  placeholder="e.g. Excellent"
+                />
+              </div>
+            </div>
+
+            {ratingScaleError && (
+              <p className="text-sm text-destructive">The rating {ratingScaleError}.</p>
+            )}
+          </div>
+        )}
+
+        {question.question_type === 'nps' && (
+          <div className="text-sm text-muted-foreground">
+            Respondents answer from 0 (Not at all likely) to 10 (Extremely likely).
+            Scores of 9–10 count as promoters, 7–8 as passives and 0–6 as detractors.
+          </div>
+        )}
+
+        {pageBreak && (
           <div className="text-sm text-muted-foreground">
-            Rating scale: 1 (Poor) to 5 (Excellent)
+            Respondents see the questions after this break on a new page.
+          </div>
+        )}
+
+        {!pageBreak && (
+          <div className="space-y-3 pt-4 border-t">
+            <div className="flex items-center justify-between">
+              <Label className="flex items-center">
+                <GitBranch className="h-4 w-4 mr-2 text-muted-foreground" />
+                Conditional Logic
+              </Label>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={addCondition}
+                disabled={earlierQuestions.length === 0}
+                className="h-8"
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                Add Condition
+              </Button>
+            </div>
+
+            {conditions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                {earlierQuestions.length === 0
+                  ? 'The first question is always shown.'
+                  : 'Always shown. Add a condition to show this question only for certain answers.'
+                }
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {conditions.map((condition, index) => {
+                  const source = earlierQuestions.find(q => q.id === condition.question_id)
+                  return (
+                    <div key={index} className="flex items-center space-x-2">
+                      <span className="w-14 text-sm text-muted-foreground">
+                        {index === 0 ? 'Show if' : 'and'}
+                      </span>
+                      <Select
+                        value={source ? condition.question_id : ''}
+                        onValueChange={(value) => updateCondition(index, { question_id: value, value: '' })}
+                      >
+                        <SelectTrigger className="flex-1">
+                          <SelectValue placeholder="Choose question" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {earlierQuestions.map(q => (
+                            <SelectItem key={q.id} value={q.id}>
+                              Q{numberOf(q)}. {q.question_text || 'Untitled question'}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {renderOperatorSelect(condition, (operator) => updateCondition(index, { operator }))}
+                      {renderRuleValue(source, condition, (value) => updateCondition(index, { value }))}
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeCondition(index)}
+                        className="h-8 w-8 p-0 text-muted-foreground hover:text-destructive"
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+
+            <div className="flex items-center space-x-2">
+              <Switch
+                id={`skip-${question.id}`}
+                checked={skipRule !== null}
+                onCheckedChange={(checked) =>
+                  updateLogic({ skip_to_end_if: checked ? { operator: 'equals', value: '' } : null })
+                }
+              />
+              <Label htmlFor={`skip-${question.id}`} className="text-sm">
+                Skip to the end based on this answer
+              </Label>
+            </div>
+
+            {skipRule && (
+              <div className="flex items-center space-x-2">
+                <span className="w-14 text-sm text-muted-foreground">If answer</span>
+                {renderOperatorSelect(skipRule, (operator) => updateLogic({ skip_to_end_if: { ...skipRule, operator } }))}
+                {renderRuleValue(question, skipRule, (value) => updateLogic({ skip_to_end_if: { ...skipRule, value } }))}
+              </div>
+            )}
           </div>
         )}
       </CardContent>
@@ -0,0 +1,56 @@
+import React from 'react'
+import { Label } from '../ui/label'
+import { Switch } from '../ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
+import { FormResponseLimit, RESPONSE_LIMITS } from '../../lib/respondent'
+import { ResponseLimit } from '../../types/form'
+
+interface ResponseLimitSettingsProps {
+  settings: FormResponseLimit
+  onChange: (updates: FormResponseLimit) => void
+  disabled?: boolean
+}
+
+// One response per respondent, and whether respondents may change it later
+export const ResponseLimitSettings: React.FC<ResponseLimitSettingsProps> = ({ settings, onChange, disabled }) => {
+  const limit = settings.response_limit ?? 'none'
+  const selected = RESPONSE_LIMITS.find(option => option.value === limit)
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label htmlFor="form-response-limit">Responses per person</Label>
+        <Select
+          value={limit}
+          onValueChange={(value: ResponseLimit) => onChange({ response_limit: value })}
+          disabled={disabled}
+        >
+          <SelectTrigger id="form-response-limit" className="sm:w-72">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RESPONSE_LIMITS.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {selected && <p className="text-sm text-muted-foreground">{selected.description}</p>}
+      </div>
+
+      <div className="flex items-start space-x-2">
+        <Switch
+          id="form-allow-response-edits"
+          checked={!!settings.allow_response_edits}
+          onCheckedChange={(checked) => onChange({ allow_response_edits: checked })}
+          disabled={disabled}
+        />
+        <div>
+          <Label htmlFor="form-allow-response-edits">Let respondents edit their response</Label>
+          <p className="text-sm text-muted-foreground">
+            Respondents get a private link to change their answers. Previous answers are kept in the response history.
+          </p>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,49 @@
+import React from 'react'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { FormSchedule, fromDateTimeLocal, toDateTimeLocal } from '../../lib/formSchedule'
+
+interface ScheduleSettingsProps {
+  schedule: FormSchedule
+  onChange: (updates: FormSchedule) => void
+  disabled?: boolean
+}
+
+// Opening and closing times and a response cap; every field is optional
+export const ScheduleSettings: React.FC<ScheduleSettingsProps> = ({ schedule, onChange, disabled }) => (
+  <div className="grid gap-4 sm:grid-cols-3">
+    <div className="space-y-2">
+      <Label htmlFor="form-opens-at">Opens</Label>
+      <Input
+        id="form-opens-at"
+        type="datetime-local"
+        value={toDateTimeLocal(schedule.opens_at)}
+        onChange={(e) => onChange({ opens_at: fromDateTimeLocal(e.target.value) })}
+        disabled={disabled}
+      />
+    </div>
+    <div className="space-y-2">
+      <Label htmlFor="form-closes-at">Closes</Label>
+      <Input
+        id="form-closes-at"
+        type="datetime-local"
+        value={toDateTimeLocal(schedule.closes_at)}
+        onChange={(e) => onChange({ closes_at: fromDateTimeLocal(e.target.value) })}
+        disabled={disabled}
+      />
+    </div>
+    <div className="space-y-2">
+      <Label htmlFor="form-max-responses">Response limit</Label>
+      <Input
+        id="form-max-responses"
+        type="number"
+        min={1}
+        step={1}
+        value={schedule.max_responses ?? ''}
+        onChange={(e) => onChange({ max_responses: e.target.value === '' ? null : Number(e.target.value) })}
+        placeholder="No limit"
+        disabled={disabled}
+      />
+    </div>
+  </div>
+)
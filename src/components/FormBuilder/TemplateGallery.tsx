@@ -0,0 +1,105 @@
+import React from 'react'
+import { FilePlus, LayoutTemplate, Trash2 } from 'lucide-react'
+import { Button } from '../ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import { FormTemplate } from '../../lib/templates'
+import { getAnswerableQuestions } from '../../lib/formPages'
+
+interface TemplateGalleryProps {
+  builtInTemplates: FormTemplate[]
+  userTemplates: FormTemplate[]
+  // Null starts from a blank form
+  onSelect: (template: FormTemplate | null) => void
+  onDelete: (template: FormTemplate) => void
+}
+
+const TemplateCard: React.FC<{
+  template: FormTemplate
+  onSelect: () => void
+  onDelete?: () => void
+}> = ({ template, onSelect, onDelete }) => {
+  const questionCount = getAnswerableQuestions(template.questions).length
+
+  return (
+    <div className="relative group">
+      <button
+        type="button"
+        onClick={onSelect}
+        className="w-full h-full text-left p-4 border rounded-lg bg-card hover:border-primary hover:shadow-md transition-all"
+      >
+        <p className="font-semibold text-foreground pr-8">{template.title}</p>
+        {template.description && (
+          <p className="text-sm text-muted-foreground mt-1 line-clamp-2">{template.description}</p>
+        )}
+        <p className="text-xs text-muted-foreground mt-3">
+          {questionCount} {questionCount === 1 ? 'question' : 'questions'}
+        </p>
+      </button>
+      {onDelete && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onDelete}
+          className="absolute top-2 right-2 text-muted-foreground hover:text-destructive"
+          title="Delete template"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  )
+}
+
+// Starting points for a new form: a blank form, the built-in templates and the user's own
+export const TemplateGallery: React.FC<TemplateGalleryProps> = ({
+  builtInTemplates,
+  userTemplates,
+  onSelect,
+  onDelete,
+}) => (
+  <div className="space-y-6">
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <LayoutTemplate className="h-5 w-5 mr-2" />
+          Start from a template
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          <button
+            type="button"
+            onClick={() => onSelect(null)}
+            className="flex flex-col items-center justify-center p-4 border border-dashed rounded-lg text-muted-foreground hover:border-primary hover:text-foreground transition-all"
+          >
+            <FilePlus className="h-6 w-6 mb-2" />
+            <span className="font-semibold">Blank form</span>
+          </button>
+          {builtInTemplates.map(template => (
+            <TemplateCard key={template.id} template={template} onSelect={() => onSelect(template)} />
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+
+    {userTemplates.length > 0 && (
+      <Card>
+        <CardHeader>
+          <CardTitle>My templates</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {userTemplates.map(template => (
+              <TemplateCard
+                key={template.id}
+                template={template}
+                onSelect={() => onSelect(template)}
+                onDelete={() => onDelete(template)}
+              />
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    )}
+  </div>
+)
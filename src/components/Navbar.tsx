@@ -23,7 +23,7 @@ export const Navbar: React.FC = () => {
   }
 
   return (
-    <nav className="bg-background border-b transition-colors duration-200">
+    <nav className="bg-background border-b transition-colors duration-200 print:hidden">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="flex justify-between h-16">
           <div className="flex items-center">
@@ -0,0 +1,52 @@
+import React from 'react'
+import { Button } from './ui/button'
+import { PAGE_SIZE_OPTIONS } from '../lib/pagination'
+
+interface PaginationControlsProps {
+  loaded: number
+  // Total matching rows when known
+  total?: number | null
+  pageSize: number
+  onPageSizeChange: (pageSize: number) => void
+  hasMore: boolean
+  loadingMore: boolean
+  onLoadMore: () => void
+}
+
+export const PaginationControls: React.FC<PaginationControlsProps> = ({
+  loaded,
+  total,
+  pageSize,
+  onPageSizeChange,
+  hasMore,
+  loadingMore,
+  onLoadMore,
+}) => (
+  <div className="flex flex-wrap items-center justify-between gap-4 py-6">
+    <p className="text-sm text-muted-foreground">
+      Showing {loaded}{total !== undefined && total !== null ? ` of ${total}` : ''} responses
+    </p>
+
+    <div className="flex items-center gap-3">
+      <label htmlFor="page-size" className="text-sm text-muted-foreground">
+        Per page
+      </label>
+      <select
+        id="page-size"
+        value={pageSize}
+        onChange={(e) => onPageSizeChange(parseInt(e.target.value))}
+        className="border border-input rounded-lg px-3 py-2 bg-background text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+      >
+        {PAGE_SIZE_OPTIONS.map(size => (
+          <option key={size} value={size}>{size}</option>
+        ))}
+      </select>
+
+      {hasMore && (
+        <Button variant="outline" onClick={onLoadMore} disabled={loadingMore}>
+          {loadingMore ? 'Loading...' : 'Load more'}
+        </Button>
+      )}
+    </div>
+  </div>
+)
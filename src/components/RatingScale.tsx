@@ -0,0 +1,101 @@
+import React from 'react'
+import { ScaledQuestion, getRatingScale, parseRating, ratingEmoji } from '../lib/rating'
+
+interface RatingInputProps {
+  question: ScaledQuestion
+  value?: string
+  onChange?: (value: string) => void
+  disabled?: boolean
+  // Smaller buttons for the builder preview
+  compact?: boolean
+}
+
+export const RatingInput: React.FC<RatingInputProps> = ({
+  question,
+  value,
+  onChange,
+  disabled = false,
+  compact = false,
+}) => {
+  const scale = getRatingScale(question)
+  const selected = value !== undefined ? parseRating(value, scale) : null
+  const size = compact ? 'h-8 min-w-8 px-2 text-sm' : 'h-12 min-w-12 px-3 text-sm'
+
+  const renderPoint = (point: number) => {
+    if (scale.style === 'stars') {
+      const filled = selected !== null && point <= selected
+      return <span className={`text-2xl ${filled ? 'text-yellow-500' : 'text-muted-foreground'}`}>{filled ? '★' : '☆'}</span>
+    }
+    if (scale.style === 'emoji') {
+      return <span className="text-2xl">{ratingEmoji(point, scale)}</span>
+    }
+    return point
+  }
+
+  const pointClassName = (point: number) => {
+    const isSelected = selected === point
+    if (disabled) return 'border-input bg-muted'
+    if (scale.style === 'numbers') {
+      return isSelected
+        ? 'border-primary bg-primary text-white'
+        : 'border-input bg-background hover:border-primary hover:bg-primary/10'
+    }
+    // Stars and emoji keep their glyph colours and only outline the selection
+    return isSelected
+      ? 'border-primary bg-primary/10'
+      : 'border-transparent hover:border-primary/50'
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2">
+        {scale.values.map((point) => (
+          <button
+            key={point}
+            type="button"
+            disabled={disabled}
+            onClick={() => onChange?.(point.toString())}
+            title={point.toString()}
+            aria-label={`${point}`}
+            aria-pressed={selected === point}
+            className={`${size} rounded-lg border-2 font-medium transition-colors ${pointClassName(point)}`}
+          >
+            {renderPoint(point)}
+          </button>
+        ))}
+      </div>
+      <div className="flex justify-between text-sm text-muted-foreground">
+        <span>{scale.min} = {scale.minLabel}</span>
+        <span>{scale.max} = {scale.maxLabel}</span>
+      </div>
+    </div>
+  )
+}
+
+interface RatingDisplayProps {
+  question: ScaledQuestion
+  value: string
+}
+
+// Read-only rendering of a submitted rating, e.g. "4/5 ★★★★☆"
+export const RatingDisplay: React.FC<RatingDisplayProps> = ({ question, value }) => {
+  const scale = getRatingScale(question)
+  const rating = parseRating(value, scale)
+
+  if (rating === null) return <>{value}</>
+
+  return (
+    <span className="inline-flex items-center">
+      {rating}/{scale.max}
+      {scale.style === 'stars' && (
+        <span className="ml-2">
+          {'★'.repeat(scale.values.filter(point => point <= rating).length)}
+          {'☆'.repeat(scale.values.filter(point => point > rating).length)}
+        </span>
+      )}
+      {scale.style === 'emoji' && (
+        <span className="ml-2">{ratingEmoji(rating, scale)}</span>
+      )}
+    </span>
+  )
+}
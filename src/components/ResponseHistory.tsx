@@ -0,0 +1,53 @@
+import React from 'react'
+import { History } from 'lucide-react'
+
+export interface AnswerRevision {
+  id: string
+  question_id: string
+  // Null when the question had no answer before the edit
+  answer_text: string | null
+  answer_options: string[] | null
+  revised_at: string
+}
+
+interface ResponseHistoryProps {
+  revisions: AnswerRevision[]
+  questionText: (questionId: string) => string
+}
+
+// The previous values of every answer a respondent changed, one group per edit, newest first
+export const ResponseHistory: React.FC<ResponseHistoryProps> = ({ revisions, questionText }) => {
+  const edits = new Map<string, AnswerRevision[]>()
+  revisions
+    .slice()
+    .sort((a, b) => b.revised_at.localeCompare(a.revised_at))
+    .forEach(revision => edits.set(revision.revised_at, [...(edits.get(revision.revised_at) || []), revision]))
+
+  return (
+    <details className="mt-4 text-sm">
+      <summary className="flex items-center cursor-pointer text-muted-foreground hover:text-foreground">
+        <History className="h-4 w-4 mr-1" />
+        Edit history ({edits.size} {edits.size === 1 ? 'edit' : 'edits'})
+      </summary>
+      <div className="mt-3 space-y-4">
+        {Array.from(edits.entries()).map(([revisedAt, changes]) => (
+          <div key={revisedAt}>
+            <p className="font-medium text-foreground mb-1">
+              Before the edit on {new Date(revisedAt).toLocaleString()}
+            </p>
+            <ul className="space-y-1 text-muted-foreground">
+              {changes.map(change => (
+                <li key={change.id}>
+                  <span className="text-foreground">{questionText(change.question_id)}:</span>{' '}
+                  {change.answer_text === null
+                    ? <em>No answer</em>
+                    : change.answer_options?.join(', ') ?? change.answer_text}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </details>
+  )
+}
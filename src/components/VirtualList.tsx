@@ -0,0 +1,54 @@
+import React, { useLayoutEffect, useRef, useState } from 'react'
+import { useWindowVirtualizer } from '@tanstack/react-virtual'
+
+interface VirtualListProps<T> {
+  items: T[]
+  getKey: (item: T) => string
+  renderItem: (item: T, index: number) => React.ReactNode
+  // Rough height of one item in pixels; real heights are measured once rendered
+  estimateSize?: number
+  // Space between items in pixels
+  gap?: number
+}
+
+// Renders only the items near the viewport while the page itself scrolls, so
+// lists with thousands of responses stay responsive
+export const VirtualList = <T,>({
+  items,
+  getKey,
+  renderItem,
+  estimateSize = 240,
+  gap = 24,
+}: VirtualListProps<T>) => {
+  const listRef = useRef<HTMLDivElement>(null)
+  const [scrollMargin, setScrollMargin] = useState(0)
+
+  useLayoutEffect(() => {
+    setScrollMargin(listRef.current?.offsetTop ?? 0)
+  }, [])
+
+  const virtualizer = useWindowVirtualizer({
+    count: items.length,
+    estimateSize: () => estimateSize,
+    overscan: 5,
+    gap,
+    scrollMargin,
+    getItemKey: (index) => getKey(items[index]),
+  })
+
+  return (
+    <div ref={listRef} className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+      {virtualizer.getVirtualItems().map(virtualItem => (
+        <div
+          key={virtualItem.key}
+          data-index={virtualItem.index}
+          ref={virtualizer.measureElement}
+          className="absolute left-0 top-0 w-full"
+          style={{ transform: `translateY(${virtualItem.start - virtualizer.options.scrollMargin}px)` }}
+        >
+          {renderItem(items[virtualItem.index], virtualItem.index)}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it, vi } from 'vitest'
+import { PostgrestError } from '@supabase/supabase-js'
+import { fetchAllRows } from './aggregates'
+import { MAX_ROWS } from './pagination'
+
+vi.mock('./supabase', () => ({ supabase: {} }))
+
+const rows = Array.from({ length: MAX_ROWS * 2 + 7 }, (_, index) => ({ index }))
+
+// A range of rows, cut to max-rows as PostgREST does
+const fetchRange = vi.fn(async (from: number, to: number) => ({
+  data: rows.slice(from, Math.min(to + 1, from + MAX_ROWS)),
+  error: null,
+}))
+
+describe('fetchAllRows', () => {
+  it('keeps fetching while the server returns full pages', async () => {
+    const { data, error } = await fetchAllRows<{ index: number }>(fetchRange)
+    expect(error).toBeNull()
+    expect(data).toEqual(rows)
+    expect(fetchRange).toHaveBeenCalledTimes(3)
+  })
+
+  it('returns the error of a failed page', async () => {
+    const error = new PostgrestError({ message: 'failed', details: '', hint: '', code: '500' })
+    const result = await fetchAllRows(async () => ({ data: null, error }))
+    expect(result.error).toBe(error)
+  })
+})
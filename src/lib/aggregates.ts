@@ -0,0 +1,128 @@
+import { PostgrestError } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+import { QuestionSettings, QuestionType } from '../types/form'
+import { RatedAnswer } from './analytics'
+import { MAX_ROWS } from './pagination'
+
+// Typed wrappers around the aggregate RPC functions, so pages never have to
+// download individual responses just to count them
+
+export interface FormResponseCount {
+  form_id: string
+  title: string
+  is_active: boolean
+  created_at: string
+  response_count: number
+  last_response_at: string | null
+}
+
+export interface DailyResponseCount {
+  // UTC day, e.g. "2025-07-26"
+  day: string
+  response_count: number
+}
+
+export interface AnswerDistributionRow {
+  question_id: string
+  form_version_id: string | null
+  question_type: QuestionType
+  settings: QuestionSettings
+  // The answer text, a single selected option for checkbox questions, or null
+  // for text questions, which are only counted
+  value: string | null
+  answer_count: number
+  // Answers to the question in this version, i.e. its respondents
+  answers_total: number
+}
+
+export interface MonthlyAnswerDistributionRow {
+  question_id: string
+  form_version_id: string | null
+  // Calendar month, e.g. "2025-07"
+  month: string
+  value: string
+  answer_count: number
+}
+
+export interface VersionResponseCount {
+  // Null for responses submitted before versioning
+  form_version_id: string | null
+  response_count: number
+}
+
+export interface TextAnswerRow {
+  question_id: string
+  form_version_id: string | null
+  answer_text: string
+  submitted_at: string
+}
+
+// Distribution rows of rating questions as weighted answers for computeRatingStats
+export const toRatedAnswers = (rows: AnswerDistributionRow[]): RatedAnswer[] =>
+  rows
+    .filter(row => row.question_type === 'rating' && row.value !== null)
+    .map(row => ({
+      question_type: row.question_type,
+      settings: row.settings,
+      answer_text: row.value as string,
+      count: row.answer_count,
+    }))
+
+// Every row of an aggregate that can outgrow a single request. PostgREST
+// returns at most MAX_ROWS rows at a time, so pages are fetched in a stable
+// order until one comes back short.
+export const fetchAllRows = async <T>(
+  fetchRange: (from: number, to: number) => PromiseLike<{ data: unknown; error: PostgrestError | null }>
+) => {
+  const rows: T[] = []
+  let page: T[]
+  do {
+    const { data, error } = await fetchRange(rows.length, rows.length + MAX_ROWS - 1)
+    if (error) return { data: rows, error }
+    page = (data || []) as T[]
+    rows.push(...page)
+  } while (page.length === MAX_ROWS)
+  return { data: rows, error: null }
+}
+
+export const getFormResponseCounts = async () => {
+  const { data, error } = await supabase.rpc('get_form_response_counts')
+  return { data: (data || []) as FormResponseCount[], error }
+}
+
+export const getDailyResponseCounts = async (days: number, formId: string | null = null) => {
+  const { data, error } = await supabase.rpc('get_daily_response_counts', { p_days: days, p_form_id: formId })
+  return { data: (data || []) as DailyResponseCount[], error }
+}
+
+// One row per question, version and value, across every form when formId is null
+export const getAnswerDistribution = (formId: string | null = null) =>
+  fetchAllRows<AnswerDistributionRow>((from, to) =>
+    supabase
+      .rpc('get_answer_distribution', { p_form_id: formId })
+      .order('question_id')
+      .order('form_version_id')
+      .order('value')
+      .range(from, to)
+  )
+
+export const getMonthlyAnswerDistribution = (questionType: QuestionType, formId: string | null = null) =>
+  fetchAllRows<MonthlyAnswerDistributionRow>((from, to) =>
+    supabase
+      .rpc('get_monthly_answer_distribution', { p_question_type: questionType, p_form_id: formId })
+      .order('month')
+      .order('question_id')
+      .order('form_version_id')
+      .order('value')
+      .range(from, to)
+  )
+
+export const getVersionResponseCounts = async (formId: string) => {
+  const { data, error } = await supabase.rpc('get_version_response_counts', { p_form_id: formId })
+  return { data: (data || []) as VersionResponseCount[], error }
+}
+
+export const getLatestTextAnswers = async (formId: string, limit = 100) => {
+  const { data, error } = await supabase.rpc('get_latest_text_answers', { p_form_id: formId, p_limit: limit })
+  return { data: (data || []) as TextAnswerRow[], error }
+}
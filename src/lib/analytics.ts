@@ -0,0 +1,221 @@
+import { Question, QuestionSettings } from '../types/form'
+import { RatingScale, getRatingScale, isScaleQuestion, normalizeRating, parseRating } from './rating'
+
+export interface ValueCount {
+  value: string
+  count: number
+}
+
+export interface OptionCount {
+  option: string
+  count: number
+  // Share of the question's respondents who picked the option
+  percent: number
+}
+
+export interface ChoiceSummary {
+  kind: 'choice'
+  respondents: number
+  options: OptionCount[]
+}
+
+export interface ScaleSummary {
+  kind: 'scale'
+  scale: RatingScale
+  count: number
+  mean: number | null
+  median: number | null
+  distribution: { value: number; count: number }[]
+}
+
+export interface TextSummary {
+  kind: 'text'
+  answers: string[]
+  words: ValueCount[]
+}
+
+export type QuestionSummaryData = ChoiceSummary | ScaleSummary | TextSummary
+
+// How many answers gave a value; checkbox answers count once per selected option
+export interface AnswerCount {
+  value: string
+  count: number
+}
+
+// An answer together with the question fields needed to interpret it
+export interface RatedAnswer {
+  question_type: string
+  settings: QuestionSettings
+  answer_text: string
+  // How many answers this row stands for when read from an aggregate, defaults to 1
+  count?: number
+}
+
+export interface RatingStats {
+  count: number
+  // Average and scale maximum, only when every answer shares the same scale
+  average: number | null
+  scaleMax: number | null
+  // Average position between each scale's minimum and maximum, from 0 to 100
+  percent: number | null
+}
+
+type SummarizedQuestion = Pick<Question, 'question_type' | 'options' | 'settings'>
+
+// Common words left out of the text answer word counts
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her', 'was', 'one',
+  'our', 'out', 'has', 'have', 'him', 'his', 'how', 'its', 'may', 'who', 'did', 'get', 'got', 'too',
+  'use', 'that', 'this', 'with', 'from', 'they', 'them', 'then', 'than', 'there', 'their', 'what',
+  'when', 'which', 'will', 'would', 'could', 'should', 'about', 'been', 'were', 'very', 'just',
+  'also', 'more', 'some', 'into', 'your', 'it\'s', 'i\'m', 'don\'t', 'really', 'much', 'only',
+])
+
+const round = (value: number) => Math.round(value * 10) / 10
+
+// Occurrences of each distinct value, most frequent first
+export const countValues = (values: string[]): ValueCount[] => {
+  const counts = new Map<string, number>()
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1))
+  return Array.from(counts.entries())
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count)
+}
+
+// Adds up the counts of equal values, e.g. the same option counted in several versions
+const mergeCounts = (values: AnswerCount[]) => {
+  const counts = new Map<string, number>()
+  values.forEach(({ value, count }) => counts.set(value, (counts.get(value) || 0) + count))
+  return counts
+}
+
+export const weightedMean = (points: { value: number; count: number }[]) => {
+  const total = points.reduce((sum, point) => sum + point.count, 0)
+  return total > 0 ? points.reduce((sum, point) => sum + point.value * point.count, 0) / total : null
+}
+
+export const weightedMedian = (points: { value: number; count: number }[]) => {
+  const sorted = points.filter(point => point.count > 0).sort((a, b) => a.value - b.value)
+  const total = sorted.reduce((sum, point) => sum + point.count, 0)
+  if (total === 0) return null
+
+  // Value at a 0-based position in the expanded, sorted list of answers
+  const valueAt = (position: number) => {
+    let seen = 0
+    for (const point of sorted) {
+      seen += point.count
+      if (position < seen) return point.value
+    }
+    return sorted[sorted.length - 1].value
+  }
+
+  const middle = Math.floor(total / 2)
+  return total % 2 === 0 ? (valueAt(middle - 1) + valueAt(middle)) / 2 : valueAt(middle)
+}
+
+// Most frequent words across text answers, ignoring case, short words and stop words
+export const wordFrequencies = (texts: string[], limit = 10) =>
+  countValues(
+    texts.flatMap(text =>
+      text
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}']+/u)
+        .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+    )
+  ).slice(0, limit)
+
+// Option counts for multiple choice and checkbox questions. Options that were
+// answered but have since been removed from the question are listed last.
+const summarizeChoices = (question: SummarizedQuestion, values: AnswerCount[], respondents: number): ChoiceSummary => {
+  const counts = mergeCounts(values)
+  const options = question.options.filter(option => option.trim())
+  counts.forEach((_, value) => {
+    if (!options.includes(value)) options.push(value)
+  })
+
+  return {
+    kind: 'choice',
+    respondents,
+    options: options.map(option => {
+      const count = counts.get(option) || 0
+      return { option, count, percent: respondents > 0 ? (count / respondents) * 100 : 0 }
+    }),
+  }
+}
+
+const summarizeScale = (question: SummarizedQuestion, values: AnswerCount[]): ScaleSummary => {
+  const scale = getRatingScale(question)
+  const points = values.flatMap(({ value, count }) => {
+    const rating = parseRating(value, scale)
+    return rating === null ? [] : [{ value: rating, count }]
+  })
+  const avg = weightedMean(points)
+  const mid = weightedMedian(points)
+
+  return {
+    kind: 'scale',
+    scale,
+    count: points.reduce((sum, point) => sum + point.count, 0),
+    mean: avg === null ? null : round(avg),
+    median: mid === null ? null : round(mid),
+    distribution: scale.values.map(point => ({
+      value: point,
+      count: points
+        .filter(p => Math.abs(p.value - point) < 1e-9)
+        .reduce((sum, p) => sum + p.count, 0),
+    })),
+  }
+}
+
+// Overall rating statistic across rating questions. Answers are picked by
+// question_type and read against their own question's scale, so option and text
+// answers that happen to look like numbers never count. NPS has its own score.
+export const computeRatingStats = (answers: RatedAnswer[]): RatingStats => {
+  const ratings = answers
+    .filter(answer => answer.question_type === 'rating')
+    .flatMap(answer => {
+      const scale = getRatingScale(answer)
+      const value = parseRating(answer.answer_text, scale)
+      return value === null ? [] : [{ value, scale, weight: answer.count ?? 1 }]
+    })
+
+  const count = ratings.reduce((sum, r) => sum + r.weight, 0)
+  if (count === 0) return { count: 0, average: null, scaleMax: null, percent: null }
+
+  const [{ scale }] = ratings
+  const sameScale = ratings.every(r => r.scale.min === scale.min && r.scale.max === scale.max)
+  const avg = ratings.reduce((sum, r) => sum + r.value * r.weight, 0) / count
+  const position = ratings.reduce((sum, r) => sum + normalizeRating(r.value, r.scale) * r.weight, 0) / count
+
+  return {
+    count,
+    average: sameScale ? round(avg) : null,
+    scaleMax: sameScale ? scale.max : null,
+    percent: Math.round(position * 100),
+  }
+}
+
+// "4.2/5" when every rating shares a scale, otherwise "78%"; null without ratings
+export const formatRatingStats = (stats: RatingStats) => {
+  if (stats.count === 0) return null
+  return stats.average !== null ? `${stats.average}/${stats.scaleMax}` : `${stats.percent}%`
+}
+
+// Summary of one question from its value counts. `respondents` is the number of
+// answers to the question; text questions are summarized from a sample of texts.
+export const summarizeQuestion = (
+  question: SummarizedQuestion,
+  values: AnswerCount[],
+  respondents: number,
+  texts: string[] = []
+): QuestionSummaryData => {
+  if (question.question_type === 'multiple_choice' || question.question_type === 'checkbox') {
+    return summarizeChoices(question, values, respondents)
+  }
+  if (isScaleQuestion(question)) {
+    return summarizeScale(question, values)
+  }
+
+  const sample = texts.map(text => text.trim()).filter(Boolean)
+  return { kind: 'text', answers: sample, words: wordFrequencies(sample) }
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import { escapeCsvField, parseCsv, toCsv } from './csv'
+
+describe('escapeCsvField', () => {
+  it('leaves plain values alone', () => {
+    expect(escapeCsvField('plain')).toBe('plain')
+    expect(escapeCsvField(42)).toBe('42')
+  })
+
+  it('writes missing values as empty fields', () => {
+    expect(escapeCsvField(null)).toBe('')
+    expect(escapeCsvField(undefined)).toBe('')
+  })
+
+  it('quotes fields with commas', () => {
+    expect(escapeCsvField('red, green')).toBe('"red, green"')
+  })
+
+  it('doubles quotes inside quoted fields', () => {
+    expect(escapeCsvField('say "hi"')).toBe('"say ""hi"""')
+  })
+
+  it('quotes fields with line breaks', () => {
+    expect(escapeCsvField('first\nsecond')).toBe('"first\nsecond"')
+    expect(escapeCsvField('first\r\nsecond')).toBe('"first\r\nsecond"')
+  })
+
+  it('quotes fields with edge whitespace', () => {
+    expect(escapeCsvField(' padded ')).toBe('" padded "')
+  })
+})
+
+describe('toCsv', () => {
+  it('joins rows with CRLF and ends with a line break', () => {
+    expect(toCsv([['a', 'b'], ['1', '2']])).toBe('a,b\r\n1,2\r\n')
+  })
+
+  it('starts with a UTF-8 byte order mark only when asked', () => {
+    expect(toCsv([['é']], { bom: true })).toBe('\uFEFFé\r\n')
+    expect(toCsv([['é']]).startsWith('\uFEFF')).toBe(false)
+  })
+
+  it('reads back what it writes', () => {
+    const rows = [['Title', 'Answer'], ['A "quoted", title', 'line one\nline two']]
+    expect(parseCsv(toCsv(rows, { bom: true }))).toEqual(rows)
+  })
+})
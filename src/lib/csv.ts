@@ -0,0 +1,78 @@
+// CSV per RFC 4180: comma separated fields, CRLF line endings, and fields with
+// commas, quotes, line breaks or edge whitespace wrapped in quotes
+
+export type CsvValue = string | number | boolean | null | undefined
+
+export interface CsvOptions {
+  // Start with a UTF-8 byte order mark so Excel does not misread non-ASCII text
+  bom?: boolean
+}
+
+const NEEDS_QUOTES = /[",\r\n]/
+
+export const escapeCsvField = (value: CsvValue) => {
+  if (value === null || value === undefined) return ''
+  const text = String(value)
+  return NEEDS_QUOTES.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export const toCsv = (rows: CsvValue[][], { bom = false }: CsvOptions = {}) =>
+  (bom ? '\uFEFF' : '') + rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n'
+
+// Reads CSV text into rows of fields. Accepts quoted fields with embedded
+// commas, quotes and line breaks, CRLF or LF line endings and a leading byte
+// order mark. Blank lines are skipped.
+export const parseCsv = (text: string) => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  const input = text.startsWith('\uFEFF') ? text.slice(1) : text
+
+  const endRow = () => {
+    row.push(field)
+    if (row.length > 1 || row[0] !== '') rows.push(row)
+    row = []
+    field = ''
+  }
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      endRow()
+    } else {
+      field += char
+    }
+  }
+  if (field !== '' || row.length > 0) endRow()
+
+  return rows
+}
+
+// Saves `content`, or the concatenation of its parts, as a file through a temporary download link
+export const downloadFile = (content: BlobPart | BlobPart[], filename: string, type: string) => {
+  const blob = new Blob(Array.isArray(content) ? content : [content], { type })
+  const url = window.URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  window.URL.revokeObjectURL(url)
+}
@@ -0,0 +1,228 @@
+import { AnswerValue, FormData, Question, QuestionType } from '../types/form'
+import { supabase } from './supabase'
+import { findFormError } from './forms'
+import { getVisibleQuestions, isAnswered, validateAnswers } from './formLogic'
+import { getAnswerableQuestions } from './formPages'
+import { getRatingScale, isScaleQuestion, parseRating } from './rating'
+
+// Importing a form from a JSON definition and its historical responses from CSV
+
+const QUESTION_TYPES: QuestionType[] = ['text', 'multiple_choice', 'checkbox', 'rating', 'nps', 'page_break']
+
+// Column mapping target for the submission time; every other target is a question id
+export const SUBMITTED_AT_COLUMN = 'submitted_at'
+
+export interface FormDefinitionResult {
+  form: FormData | null
+  errors: string[]
+}
+
+export interface ImportedResponse {
+  submitted_at: string
+  is_complete: boolean
+  answers: { question_id: string; answer_text: string; answer_options: string[] | null }[]
+}
+
+export interface ImportRow {
+  // Line in the CSV file, counting the header as line 1
+  line: number
+  response: ImportedResponse | null
+  errors: string[]
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string')
+
+// Reads a form definition shaped like FormData: a title, a description and a
+// questions array of Question objects. Ids are optional; every question gets a
+// new id and logic conditions are pointed at the new ids.
+export const parseFormDefinition = (json: string): FormDefinitionResult => {
+  let definition: unknown
+  try {
+    definition = JSON.parse(json)
+  } catch (err) {
+    return { form: null, errors: [`Not valid JSON: ${err instanceof Error ? err.message : String(err)}`] }
+  }
+
+  if (!isObject(definition)) {
+    return { form: null, errors: ['The definition must be a JSON object with a title and questions'] }
+  }
+
+  const errors: string[] = []
+  if (typeof definition.title !== 'string') errors.push('"title" must be a string')
+  if (definition.description !== undefined && typeof definition.description !== 'string') {
+    errors.push('"description" must be a string')
+  }
+  if (!Array.isArray(definition.questions)) {
+    errors.push('"questions" must be an array')
+    return { form: null, errors }
+  }
+
+  const rawQuestions = definition.questions as unknown[]
+  const idMap = new Map<string, string>()
+  rawQuestions.forEach((raw, index) => {
+    const label = `Question ${index + 1}`
+    if (!isObject(raw)) {
+      errors.push(`${label} must be an object`)
+      return
+    }
+    if (typeof raw.question_text !== 'string') errors.push(`${label}: "question_text" must be a string`)
+    if (!QUESTION_TYPES.includes(raw.question_type as QuestionType)) {
+      errors.push(`${label}: "question_type" must be one of ${QUESTION_TYPES.join(', ')}`)
+    }
+    if (raw.options !== undefined && !isStringArray(raw.options)) errors.push(`${label}: "options" must be an array of strings`)
+    if (raw.is_required !== undefined && typeof raw.is_required !== 'boolean') errors.push(`${label}: "is_required" must be true or false`)
+    if (raw.settings !== undefined && !isObject(raw.settings)) errors.push(`${label}: "settings" must be an object`)
+    if (raw.logic !== undefined && !isObject(raw.logic)) errors.push(`${label}: "logic" must be an object`)
+    if (raw.id !== undefined) {
+      if (typeof raw.id !== 'string' || idMap.has(raw.id)) {
+        errors.push(`${label}: "id" must be a unique string`)
+      } else {
+        idMap.set(raw.id, crypto.randomUUID())
+      }
+    }
+  })
+
+  if (errors.length > 0) return { form: null, errors }
+
+  const questions: Question[] = (rawQuestions as Record<string, unknown>[])
+    .map((raw, index) => ({ raw, index }))
+    // Keep the file order unless the definition numbers its questions
+    .sort((a, b) =>
+      (typeof a.raw.order_index === 'number' ? a.raw.order_index : a.index) -
+      (typeof b.raw.order_index === 'number' ? b.raw.order_index : b.index)
+    )
+    .map(({ raw }, index) => {
+      const question = raw as unknown as Partial<Question>
+      const logic = question.logic || {}
+      return {
+        id: question.id ? idMap.get(question.id) as string : crypto.randomUUID(),
+        question_text: question.question_text || '',
+        question_type: question.question_type as QuestionType,
+        options: question.options || [],
+        is_required: question.is_required ?? question.question_type !== 'page_break',
+        order_index: index,
+        logic: {
+          ...logic,
+          // Conditions on questions missing from the file are kept as is and reported below
+          show_if: logic.show_if?.map(condition => ({
+            ...condition,
+            question_id: idMap.get(condition.question_id) || condition.question_id,
+          })),
+        },
+        settings: question.settings || {},
+      }
+    })
+
+  const form: FormData = {
+    title: definition.title as string,
+    description: (definition.description as string | undefined) || '',
+    is_active: typeof definition.is_active === 'boolean' ? definition.is_active : true,
+    questions,
+  }
+
+  const formError = findFormError(form)
+  return formError ? { form: null, errors: [formError] } : { form, errors: [] }
+}
+
+const normalize = (value: string) => value.trim().toLowerCase()
+
+// Columns whose header matches a question's text, or the submission time, mapped automatically
+export const guessColumnMapping = (headers: string[], questions: Question[]) =>
+  headers.map(header => {
+    if (['submitted at', 'submitted_at', 'timestamp'].includes(normalize(header))) return SUBMITTED_AT_COLUMN
+    return getAnswerableQuestions(questions).find(question => normalize(question.question_text) === normalize(header))?.id || ''
+  })
+
+// Checkbox cells list options separated by semicolons, or by commas as in our own exports
+const splitOptions = (cell: string, question: Question) => {
+  if (question.options.some(option => normalize(option) === normalize(cell))) return [cell.trim()]
+  return cell.split(cell.includes(';') ? ';' : ',').map(option => option.trim()).filter(Boolean)
+}
+
+// The question's own spelling of an option, matched ignoring case
+const matchOption = (value: string, question: Question) =>
+  question.options.find(option => normalize(option) === normalize(value))
+
+// Turns CSV data rows into responses, validating each row the way the public
+// form validates a submission. `mapping` holds a target per column: a question
+// id, SUBMITTED_AT_COLUMN or '' to ignore the column.
+export const mapResponseRows = (rows: string[][], mapping: string[], questions: Question[]): ImportRow[] => {
+  const byId = new Map(questions.map(question => [question.id, question]))
+
+  return rows.map((row, rowIndex) => {
+    const errors: string[] = []
+    const answers: Record<string, AnswerValue> = {}
+    let submittedAt = new Date()
+
+    mapping.forEach((target, column) => {
+      const cell = (row[column] || '').trim()
+      if (!target || !cell) return
+
+      if (target === SUBMITTED_AT_COLUMN) {
+        submittedAt = new Date(cell)
+        if (isNaN(submittedAt.getTime())) errors.push(`"${cell}" is not a valid date`)
+        return
+      }
+
+      const question = byId.get(target)
+      if (!question) return
+
+      if (question.question_type === 'checkbox') {
+        const selected = splitOptions(cell, question)
+        const unknown = selected.filter(option => !matchOption(option, question))
+        if (unknown.length > 0) errors.push(`${question.question_text}: unknown option ${unknown.map(o => `"${o}"`).join(', ')}`)
+        answers[question.id] = selected.map(option => matchOption(option, question) || option)
+      } else if (question.question_type === 'multiple_choice') {
+        const option = matchOption(cell, question)
+        if (!option) errors.push(`${question.question_text}: unknown option "${cell}"`)
+        answers[question.id] = option || cell
+      } else {
+        if (isScaleQuestion(question) && parseRating(cell, getRatingScale(question)) === null) {
+          const scale = getRatingScale(question)
+          errors.push(`${question.question_text}: "${cell}" is not on the ${scale.min}–${scale.max} scale`)
+        }
+        answers[question.id] = cell
+      }
+    })
+
+    // Required questions and selection limits, for the questions the row's answers would show
+    Object.entries(validateAnswers(questions, answers)).forEach(([questionId, message]) => {
+      const question = byId.get(questionId) as Question
+      if (!errors.some(error => error.startsWith(`${question.question_text}:`))) {
+        errors.push(`${question.question_text}: ${message}`)
+      }
+    })
+
+    const shown = getAnswerableQuestions(getVisibleQuestions(questions, answers))
+
+    return {
+      line: rowIndex + 2,
+      errors,
+      response: errors.length > 0 ? null : {
+        submitted_at: submittedAt.toISOString(),
+        is_complete: shown.every(question => isAnswered(answers[question.id])),
+        answers: Object.entries(answers).map(([questionId, value]) =>
+          Array.isArray(value)
+            ? { question_id: questionId, answer_text: value.join(', '), answer_options: value }
+            : { question_id: questionId, answer_text: value, answer_options: null }
+        ),
+      },
+    }
+  })
+}
+
+// Writes imported responses and their answers to a form in one transaction,
+// so a failure leaves none of them behind. Returns how many were written.
+export const importResponses = async (formId: string, responses: ImportedResponse[]) => {
+  const { data, error } = await supabase.rpc('import_responses', {
+    p_form_id: formId,
+    p_responses: responses,
+  })
+
+  if (error) throw error
+  return data as number
+}
@@ -0,0 +1,228 @@
+import { AnswerValue, LogicOperator, LogicRule, Question } from '../types/form'
+import { getAnswerableQuestions } from './formPages'
+import { findRatingScaleError, getRatingScale, isScaleQuestion, parseRating } from './rating'
+
+export const LOGIC_OPERATORS: { value: LogicOperator; label: string; symbol: string }[] = [
+  { value: 'equals', label: 'equals', symbol: '=' },
+  { value: 'not_equals', label: 'does not equal', symbol: '≠' },
+  { value: 'contains', label: 'contains', symbol: 'contains' },
+  { value: 'less_than_or_equal', label: 'is at most', symbol: '≤' },
+  { value: 'greater_than_or_equal', label: 'is at least', symbol: '≥' },
+  { value: 'is_answered', label: 'is answered', symbol: 'is answered' },
+]
+
+export const isAnswered = (answer: AnswerValue | undefined) => {
+  if (answer === undefined) return false
+  return Array.isArray(answer) ? answer.length > 0 : answer.trim() !== ''
+}
+
+export const matchesRule = (answer: AnswerValue | undefined, rule: LogicRule) => {
+  if (rule.operator === 'is_answered') return isAnswered(answer)
+  // Every other operator needs an answer to compare against
+  if (!isAnswered(answer)) return false
+
+  const expected = rule.value.trim()
+
+  // Checkbox answers match when the expected option is among the selected ones
+  if (Array.isArray(answer)) {
+    const selected = answer.map(option => option.toLowerCase())
+    switch (rule.operator) {
+      case 'equals':
+      case 'contains':
+        return selected.includes(expected.toLowerCase())
+      case 'not_equals':
+        return !selected.includes(expected.toLowerCase())
+      default:
+        return false
+    }
+  }
+
+  const actual = (answer as string).trim()
+
+  switch (rule.operator) {
+    case 'equals':
+      return actual.toLowerCase() === expected.toLowerCase()
+    case 'not_equals':
+      return actual.toLowerCase() !== expected.toLowerCase()
+    case 'contains':
+      return actual.toLowerCase().includes(expected.toLowerCase())
+    case 'less_than_or_equal':
+      return parseFloat(actual) <= parseFloat(expected)
+    case 'greater_than_or_equal':
+      return parseFloat(actual) >= parseFloat(expected)
+    default:
+      return false
+  }
+}
+
+// Walks the questions in order, applying show_if conditions and skip-to-end rules.
+// Answers to hidden questions are ignored, so hiding a question also hides
+// anything that depends on it.
+export const getVisibleQuestions = (questions: Question[], answers: Record<string, AnswerValue>) => {
+  const visible: Question[] = []
+  const visibleIds = new Set<string>()
+
+  for (const question of [...questions].sort((a, b) => a.order_index - b.order_index)) {
+    const conditions = question.logic?.show_if || []
+    const shown = conditions.every(condition =>
+      matchesRule(visibleIds.has(condition.question_id) ? answers[condition.question_id] : undefined, condition)
+    )
+    if (!shown) continue
+
+    visible.push(question)
+    visibleIds.add(question.id)
+
+    const skipRule = question.logic?.skip_to_end_if
+    if (skipRule && matchesRule(answers[question.id], skipRule)) break
+  }
+
+  return visible
+}
+
+// Required questions that are currently visible but have no answer. Page breaks
+// are never required, so they drop out here.
+export const getMissingRequiredQuestions = (questions: Question[], answers: Record<string, AnswerValue>) =>
+  getVisibleQuestions(questions, answers).filter(q => q.is_required && !isAnswered(answers[q.id]))
+
+// Per-question error messages for the currently visible questions, keyed by question id
+export const validateAnswers = (questions: Question[], answers: Record<string, AnswerValue>) => {
+  const errors: Record<string, string> = {}
+
+  for (const question of getVisibleQuestions(questions, answers)) {
+    const answer = answers[question.id]
+
+    if (!isAnswered(answer)) {
+      if (question.is_required) errors[question.id] = 'This question is required'
+      continue
+    }
+
+    if (question.question_type === 'checkbox') {
+      const count = Array.isArray(answer) ? answer.length : 1
+      const { min_selections, max_selections } = question.settings || {}
+      if (min_selections && count < min_selections) {
+        errors[question.id] = `Select at least ${min_selections} option${min_selections === 1 ? '' : 's'}`
+      } else if (max_selections && count > max_selections) {
+        errors[question.id] = `Select at most ${max_selections} option${max_selections === 1 ? '' : 's'}`
+      }
+    }
+
+    if (isScaleQuestion(question) && !Array.isArray(answer)) {
+      const scale = getRatingScale(question)
+      if (parseRating(answer, scale) === null) {
+        errors[question.id] = `Choose a ${question.question_type === 'nps' ? 'score' : 'rating'} from ${scale.min} to ${scale.max}`
+      }
+    }
+  }
+
+  return errors
+}
+
+// Short hint describing how many checkbox options may be selected, e.g. "Select 1–3"
+export const describeSelectionLimits = (question: Question) => {
+  const { min_selections, max_selections } = question.settings || {}
+  if (min_selections && max_selections) {
+    return min_selections === max_selections
+      ? `Select exactly ${min_selections}`
+      : `Select ${min_selections}–${max_selections}`
+  }
+  if (min_selections) return `Select at least ${min_selections}`
+  if (max_selections) return `Select up to ${max_selections}`
+  return 'Select all that apply'
+}
+
+const describeRule = (rule: LogicRule) => {
+  const operator = LOGIC_OPERATORS.find(op => op.value === rule.operator)
+  if (!operator) return ''
+  return rule.operator === 'is_answered' ? operator.symbol : `${operator.symbol} "${rule.value}"`
+}
+
+// Human readable summary of a question's logic, used by the builder preview
+export const describeLogic = (question: Question, questions: Question[]) => {
+  const descriptions: string[] = []
+
+  const conditions = question.logic?.show_if || []
+  if (conditions.length > 0) {
+    const answerable = getAnswerableQuestions([...questions].sort((a, b) => a.order_index - b.order_index))
+    const parts = conditions.map(condition => {
+      const index = answerable.findIndex(q => q.id === condition.question_id)
+      return `Q${index + 1} ${describeRule(condition)}`
+    })
+    descriptions.push(`Shown only if ${parts.join(' and ')}`)
+  }
+
+  const skipRule = question.logic?.skip_to_end_if
+  if (skipRule) {
+    descriptions.push(`Skips to the end if the answer ${describeRule(skipRule)}`)
+  }
+
+  return descriptions
+}
+
+// Checks that conditions only point at earlier questions. Returns an error
+// message for the first broken question, or null when the logic is valid.
+export const findLogicError = (questions: Question[]) => {
+  const ordered = getAnswerableQuestions([...questions].sort((a, b) => a.order_index - b.order_index))
+
+  for (let i = 0; i < ordered.length; i++) {
+    const earlierIds = ordered.slice(0, i).map(q => q.id)
+    const conditions = ordered[i].logic?.show_if || []
+
+    for (const condition of conditions) {
+      if (!earlierIds.includes(condition.question_id)) {
+        return `Question ${i + 1} has a condition on a question that does not come before it`
+      }
+      if (condition.operator !== 'is_answered' && !condition.value.trim()) {
+        return `Question ${i + 1} has a condition without a value`
+      }
+    }
+
+    const skipRule = ordered[i].logic?.skip_to_end_if
+    if (skipRule && skipRule.operator !== 'is_answered' && !skipRule.value.trim()) {
+      return `Question ${i + 1} has a skip rule without a value`
+    }
+  }
+
+  return null
+}
+
+// Drops conditions that reference a question which no longer exists
+export const removeLogicReferences = (questions: Question[], removedId: string) =>
+  questions.map(q => {
+    const conditions = q.logic?.show_if || []
+    if (!conditions.some(condition => condition.question_id === removedId)) return q
+    return {
+      ...q,
+      logic: {
+        ...q.logic,
+        show_if: conditions.filter(condition => condition.question_id !== removedId),
+      },
+    }
+  })
+
+// Checks type specific settings such as checkbox limits and rating scales. Returns an
+// error message for the first broken question, or null when all are valid.
+export const findSettingsError = (questions: Question[]) => {
+  const ordered = getAnswerableQuestions([...questions].sort((a, b) => a.order_index - b.order_index))
+
+  for (let i = 0; i < ordered.length; i++) {
+    const question = ordered[i]
+
+    if (question.question_type === 'rating') {
+      const scaleError = findRatingScaleError(question.settings || {})
+      if (scaleError) return `Question ${i + 1} rating ${scaleError}`
+      continue
+    }
+    if (question.question_type !== 'checkbox') continue
+
+    const optionCount = question.options.filter(opt => opt.trim()).length
+    const { min_selections, max_selections } = question.settings || {}
+    if (min_selections && max_selections && min_selections > max_selections) {
+      return `Question ${i + 1} has a minimum selection count above its maximum`
+    }
+    if (min_selections && min_selections > optionCount) {
+      return `Question ${i + 1} requires more selections than it has options`
+    }
+  }
+
+  return null
+}
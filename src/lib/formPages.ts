@@ -0,0 +1,28 @@
+import { Question } from '../types/form'
+
+export interface FormPage {
+  title: string
+  questions: Question[]
+}
+
+export const isPageBreak = (question: Question) => question.question_type === 'page_break'
+
+// Questions that collect an answer, i.e. everything except page breaks
+export const getAnswerableQuestions = (questions: Question[]) => questions.filter(q => !isPageBreak(q))
+
+// Splits an ordered question list into pages at every page break. The break's
+// text becomes the title of the page it starts. Pages without questions are
+// dropped, so a leading break or two breaks in a row do not produce blank pages.
+export const splitIntoPages = (questions: Question[]) => {
+  const pages: FormPage[] = [{ title: '', questions: [] }]
+
+  for (const question of questions) {
+    if (isPageBreak(question)) {
+      pages.push({ title: question.question_text.trim(), questions: [] })
+    } else {
+      pages[pages.length - 1].questions.push(question)
+    }
+  }
+
+  return pages.filter(page => page.questions.length > 0)
+}
@@ -0,0 +1,53 @@
+import { FormData } from '../types/form'
+import { supabase } from './supabase'
+
+// When a form accepts responses, and how many
+export type FormSchedule = Pick<FormData, 'opens_at' | 'closes_at' | 'max_responses'>
+
+// Where a form stands in its schedule: before it opens, accepting responses,
+// past its closing time or at its response cap
+export type ScheduleState = 'scheduled' | 'open' | 'closed' | 'full'
+
+export const getScheduleState = (
+  schedule: FormSchedule,
+  responseCount: number,
+  now = new Date()
+): ScheduleState => {
+  if (schedule.opens_at && new Date(schedule.opens_at) > now) return 'scheduled'
+  if (schedule.closes_at && new Date(schedule.closes_at) <= now) return 'closed'
+  if (schedule.max_responses && responseCount >= schedule.max_responses) return 'full'
+  return 'open'
+}
+
+// Returns an error message for an impossible schedule, or null when it is valid
+export const findScheduleError = (schedule: FormSchedule) => {
+  if (schedule.opens_at && schedule.closes_at && new Date(schedule.closes_at) <= new Date(schedule.opens_at)) {
+    return 'The closing time must be after the opening time'
+  }
+  if (schedule.max_responses !== null && schedule.max_responses !== undefined) {
+    if (!Number.isInteger(schedule.max_responses) || schedule.max_responses < 1) {
+      return 'The response limit must be a whole number of at least 1'
+    }
+  }
+  return null
+}
+
+export const formatScheduleDate = (value: string) =>
+  new Date(value).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' })
+
+// Timestamps as the value of a datetime-local input, in the browser's time zone
+export const toDateTimeLocal = (value: string | null | undefined) => {
+  if (!value) return ''
+  const date = new Date(value)
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+}
+
+export const fromDateTimeLocal = (value: string) => (value ? new Date(value).toISOString() : null)
+
+// Whether respondents can submit right now. The response cap is checked by the
+// database, because respondents cannot count a form's responses themselves.
+export const formAcceptsResponses = async (formId: string) => {
+  const { data, error } = await supabase.rpc('form_accepts_responses', { p_form_id: formId })
+  if (error) throw error
+  return data as boolean
+}
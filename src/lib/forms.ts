@@ -0,0 +1,193 @@
+import { FormData, Question } from '../types/form'
+import { supabase } from './supabase'
+import { findLogicError, findSettingsError } from './formLogic'
+import { getAnswerableQuestions, isPageBreak } from './formPages'
+import { findScheduleError } from './formSchedule'
+
+// First problem that keeps a new form from being saved, or null when it is valid
+export const findFormError = (formData: FormData) => {
+  if (!formData.title.trim()) {
+    return 'Form title is required'
+  }
+
+  if (getAnswerableQuestions(formData.questions).length === 0) {
+    return 'At least one question is required'
+  }
+
+  // Check for empty questions (page break titles are optional)
+  const emptyQuestions = formData.questions.filter(q => !isPageBreak(q) && !q.question_text.trim())
+  if (emptyQuestions.length > 0) {
+    return 'All questions must have text'
+  }
+
+  // Check for multiple choice and checkbox questions without options
+  const invalidMultipleChoice = formData.questions.filter(
+    q => (q.question_type === 'multiple_choice' || q.question_type === 'checkbox') &&
+      q.options.filter(opt => opt.trim()).length === 0
+  )
+  if (invalidMultipleChoice.length > 0) {
+    return 'Multiple choice and checkbox questions must have at least one option'
+  }
+
+  return findScheduleError(formData) || findLogicError(formData.questions) || findSettingsError(formData.questions)
+}
+
+// Form details and questions in the shape the save functions take. Questions are
+// sent in display order with their ids, so logic conditions between them stay intact.
+const toSavePayload = (formData: FormData) => ({
+  p_form: {
+    title: formData.title,
+    description: formData.description,
+    is_active: formData.is_active,
+    opens_at: formData.opens_at ?? null,
+    closes_at: formData.closes_at ?? null,
+    max_responses: formData.max_responses ?? null,
+    response_limit: formData.response_limit ?? 'none',
+    allow_response_edits: formData.allow_response_edits ?? false,
+  },
+  p_questions: [...formData.questions]
+    .sort((a, b) => a.order_index - b.order_index)
+    .map(q => ({
+      id: q.id,
+      question_text: q.question_text,
+      question_type: q.question_type,
+      options: q.options,
+      is_required: q.is_required,
+      logic: q.logic,
+      settings: q.settings,
+    })),
+})
+
+// Saves a new form with its questions and first version in one transaction,
+// returning the form row
+export const createForm = async (formData: FormData) => {
+  const { data: form, error } = await supabase
+    .rpc('create_form_with_questions', toSavePayload(formData))
+
+  if (error) throw error
+
+  return form as { id: string; title: string }
+}
+
+// Saves a form's details and full question list in one transaction. Questions
+// missing from the list are soft-deleted and a new version is snapshotted.
+export const updateForm = async (formId: string, formData: FormData) => {
+  const { error } = await supabase
+    .rpc('update_form_with_questions', { p_form_id: formId, ...toSavePayload(formData) })
+
+  if (error) throw error
+}
+
+// Copies of questions with new ids, for a new form built from an existing one.
+// Logic conditions are pointed at the copies of the questions they reference.
+export const copyQuestions = (questions: Question[]): Question[] => {
+  const idMap = new Map(questions.map(q => [q.id, crypto.randomUUID()]))
+
+  return questions.map((q, index) => ({
+    id: idMap.get(q.id) as string,
+    question_text: q.question_text,
+    question_type: q.question_type,
+    options: [...q.options],
+    is_required: q.is_required,
+    order_index: index,
+    logic: {
+      ...q.logic,
+      show_if: q.logic.show_if?.map(condition => ({
+        ...condition,
+        question_id: idMap.get(condition.question_id) || condition.question_id,
+      })),
+    },
+    settings: { ...q.settings },
+  }))
+}
+
+// A saved form with its live questions, in order
+export const loadFormData = async (formId: string): Promise<FormData> => {
+  const { data: form, error: formError } = await supabase
+    .from('forms')
+    .select('id, title, description, is_active, opens_at, closes_at, max_responses, response_limit, allow_response_edits')
+    .eq('id', formId)
+    .single()
+
+  if (formError) throw formError
+
+  const { data: questions, error: questionsError } = await supabase
+    .from('questions')
+    .select('*')
+    .eq('form_id', formId)
+    .is('deleted_at', null)
+    .order('order_index')
+
+  if (questionsError) throw questionsError
+
+  return {
+    id: form.id,
+    title: form.title,
+    description: form.description || '',
+    is_active: form.is_active,
+    opens_at: form.opens_at,
+    closes_at: form.closes_at,
+    max_responses: form.max_responses,
+    response_limit: form.response_limit,
+    allow_response_edits: form.allow_response_edits,
+    questions: (questions || []).map(q => ({ ...q, logic: q.logic || {}, settings: q.settings || {} })),
+  }
+}
+
+// Copies a form and its questions into a new inactive draft, returning the new
+// form row. The response cap and per-respondent settings carry over; the opening
+// and closing times belong to the original's run, so the copy starts unscheduled.
+export const duplicateForm = async (formId: string) => {
+  const formData = await loadFormData(formId)
+
+  return createForm({
+    ...formData,
+    title: `Copy of ${formData.title}`,
+    is_active: false,
+    opens_at: null,
+    closes_at: null,
+    questions: copyQuestions(formData.questions),
+  })
+}
+
+// Days a form stays in the trash before it is deleted for good
+export const TRASH_RETENTION_DAYS = 30
+
+// Whole days left before a trashed form is purged, never below zero
+export const daysUntilPurge = (deletedAt: string) => {
+  const purgeAt = new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000
+  return Math.max(0, Math.ceil((purgeAt - Date.now()) / (24 * 60 * 60 * 1000)))
+}
+
+const updateLifecycle = async (formId: string, updates: { archived_at?: string | null; deleted_at?: string | null }) => {
+  const { error } = await supabase
+    .from('forms')
+    .update(updates)
+    .eq('id', formId)
+
+  if (error) throw error
+}
+
+export const archiveForm = (formId: string) => updateLifecycle(formId, { archived_at: new Date().toISOString() })
+
+export const unarchiveForm = (formId: string) => updateLifecycle(formId, { archived_at: null })
+
+export const moveFormToTrash = (formId: string) => updateLifecycle(formId, { deleted_at: new Date().toISOString() })
+
+export const restoreFormFromTrash = (formId: string) => updateLifecycle(formId, { deleted_at: null })
+
+// Deletes a form with all its questions, versions, responses and answers
+export const deleteFormPermanently = async (formId: string) => {
+  const { error } = await supabase
+    .from('forms')
+    .delete()
+    .eq('id', formId)
+
+  if (error) throw error
+}
+
+// Deletes the user's forms that have outlived the trash retention period
+export const purgeExpiredForms = async () => {
+  const { error } = await supabase.rpc('purge_deleted_forms')
+  if (error) throw error
+}
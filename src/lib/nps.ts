@@ -0,0 +1,80 @@
+import { QuestionSettings } from '../types/form'
+
+export type NpsCategory = 'promoter' | 'passive' | 'detractor'
+
+// NPS questions always use the standard 0–10 "how likely are you to recommend" scale
+export const NPS_SETTINGS: QuestionSettings = {
+  rating_min: 0,
+  rating_max: 10,
+  rating_step: 1,
+  min_label: 'Not at all likely',
+  max_label: 'Extremely likely',
+  rating_style: 'numbers',
+}
+
+export interface NpsResult {
+  // Percentage of promoters minus percentage of detractors, from -100 to 100
+  score: number
+  total: number
+  promoters: number
+  passives: number
+  detractors: number
+}
+
+export interface NpsEntry {
+  score: number
+  submitted_at: string
+  // How many answers this entry stands for when read from an aggregate, defaults to 1
+  count?: number
+}
+
+export interface NpsTrendPoint {
+  // Calendar month, e.g. "2025-07"
+  month: string
+  result: NpsResult
+}
+
+// 9–10 are promoters, 7–8 passives and 0–6 detractors
+export const classifyNps = (score: number): NpsCategory => {
+  if (score >= 9) return 'promoter'
+  if (score >= 7) return 'passive'
+  return 'detractor'
+}
+
+// Parses a stored answer, returning null for anything that is not a whole number from 0 to 10
+export const parseNpsScore = (answer: string) => {
+  const score = Number(answer.trim())
+  return Number.isInteger(score) && score >= 0 && score <= 10 ? score : null
+}
+
+export const computeNps = (scores: number[]): NpsResult =>
+  computeNpsFromEntries(scores.map(score => ({ score })))
+
+export const computeNpsFromEntries = (entries: Pick<NpsEntry, 'score' | 'count'>[]): NpsResult => {
+  const counts = { promoter: 0, passive: 0, detractor: 0 }
+  entries.forEach(entry => {
+    counts[classifyNps(entry.score)] += entry.count ?? 1
+  })
+
+  const total = counts.promoter + counts.passive + counts.detractor
+  return {
+    score: total > 0 ? Math.round(((counts.promoter - counts.detractor) / total) * 100) : 0,
+    total,
+    promoters: counts.promoter,
+    passives: counts.passive,
+    detractors: counts.detractor,
+  }
+}
+
+// NPS for every calendar month that has at least one answer, oldest first
+export const computeNpsTrend = (entries: NpsEntry[]): NpsTrendPoint[] => {
+  const byMonth = new Map<string, NpsEntry[]>()
+  entries.forEach(entry => {
+    const month = entry.submitted_at.slice(0, 7)
+    byMonth.set(month, [...(byMonth.get(month) || []), entry])
+  })
+
+  return Array.from(byMonth.entries())
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([month, monthEntries]) => ({ month, result: computeNpsFromEntries(monthEntries) }))
+}
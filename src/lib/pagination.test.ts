@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { EXPORT_PAGE_SIZE, MAX_ROWS, ResponseCursor, toPage } from './pagination'
+
+const rows: ResponseCursor[] = Array.from({ length: 1234 }, (_, index) => ({
+  submitted_at: new Date(Date.UTC(2025, 0, 1) - index * 60_000).toISOString(),
+  id: `response-${String(index).padStart(4, '0')}`,
+}))
+
+// Rows after `cursor` in submitted_at desc, id desc order, cut to max-rows as PostgREST does
+const fetchRows = (cursor: ResponseCursor | null, limit: number) =>
+  rows
+    .filter(row => !cursor || row.submitted_at < cursor.submitted_at ||
+      (row.submitted_at === cursor.submitted_at && row.id < cursor.id))
+    .slice(0, Math.min(limit, MAX_ROWS))
+
+describe('toPage', () => {
+  it('returns the next cursor when a row beyond the page came back', () => {
+    const page = toPage(rows.slice(0, 3), 2)
+    expect(page.items).toEqual(rows.slice(0, 2))
+    expect(page.nextCursor).toEqual(rows[1])
+  })
+
+  it('ends on a page without the extra row', () => {
+    expect(toPage(rows.slice(0, 2), 2).nextCursor).toBeNull()
+  })
+
+  it('pages through every response when the server caps rows at max-rows', () => {
+    expect(EXPORT_PAGE_SIZE + 1).toBeLessThanOrEqual(MAX_ROWS)
+
+    const exported: ResponseCursor[] = []
+    let cursor: ResponseCursor | null = null
+    do {
+      const { items, nextCursor }: ReturnType<typeof toPage<ResponseCursor>> =
+        toPage(fetchRows(cursor, EXPORT_PAGE_SIZE + 1), EXPORT_PAGE_SIZE)
+      exported.push(...items)
+      cursor = nextCursor
+    } while (cursor)
+
+    expect(exported).toEqual(rows)
+  })
+})
@@ -0,0 +1,34 @@
+// Keyset pagination over responses ordered newest first. Pages are keyed on
+// (submitted_at, id) so rows never shift between pages as new responses arrive.
+
+export interface ResponseCursor {
+  submitted_at: string
+  id: string
+}
+
+export const PAGE_SIZE_OPTIONS = [25, 50, 100, 250]
+export const DEFAULT_PAGE_SIZE = 50
+
+// PostgREST's default max-rows. A larger limit is cut to this many rows without
+// an error, which toPage would take for the last page.
+export const MAX_ROWS = 1000
+
+// Responses fetched per request when exporting every response. With the extra
+// row that tells whether another page follows, it stays under MAX_ROWS.
+export const EXPORT_PAGE_SIZE = 500
+
+// PostgREST `or` filter for the rows after `cursor` in submitted_at desc, id desc
+// order. Responses submitted at the same instant fall back to comparing ids.
+export const afterCursor = (cursor: ResponseCursor) =>
+  `submitted_at.lt."${cursor.submitted_at}",and(submitted_at.eq."${cursor.submitted_at}",id.lt.${cursor.id})`
+
+// Splits rows fetched with limit(pageSize + 1) into the page and the cursor of
+// the next one, which is null on the last page
+export const toPage = <T extends ResponseCursor>(rows: T[], pageSize: number) => {
+  const items = rows.slice(0, pageSize)
+  const last = items[items.length - 1]
+  const nextCursor: ResponseCursor | null = rows.length > pageSize && last
+    ? { submitted_at: last.submitted_at, id: last.id }
+    : null
+  return { items, nextCursor }
+}
@@ -0,0 +1,123 @@
+import { Question, QuestionSettings, RatingStyle } from '../types/form'
+import { NPS_SETTINGS } from './nps'
+
+export interface RatingScale {
+  min: number
+  max: number
+  step: number
+  minLabel: string
+  maxLabel: string
+  style: RatingStyle
+  // Every selectable value from min to max
+  values: number[]
+}
+
+// Questions created before scales were configurable use these
+export const DEFAULT_RATING_SETTINGS: Required<Pick<
+  QuestionSettings,
+  'rating_min' | 'rating_max' | 'rating_step' | 'min_label' | 'max_label' | 'rating_style'
+>> = {
+  rating_min: 1,
+  rating_max: 5,
+  rating_step: 1,
+  min_label: 'Poor',
+  max_label: 'Excellent',
+  rating_style: 'numbers',
+}
+
+export const RATING_PRESETS: { label: string; settings: QuestionSettings }[] = [
+  { label: '1–5 Numbers', settings: DEFAULT_RATING_SETTINGS },
+  {
+    label: '1–5 Stars',
+    settings: { ...DEFAULT_RATING_SETTINGS, rating_style: 'stars' },
+  },
+  {
+    label: '1–7 Likert',
+    settings: {
+      ...DEFAULT_RATING_SETTINGS,
+      rating_max: 7,
+      min_label: 'Strongly disagree',
+      max_label: 'Strongly agree',
+    },
+  },
+  {
+    label: '0–10 Scale',
+    settings: {
+      ...DEFAULT_RATING_SETTINGS,
+      rating_min: 0,
+      rating_max: 10,
+      min_label: 'Not at all likely',
+      max_label: 'Extremely likely',
+    },
+  },
+  {
+    label: '1–5 Emoji',
+    settings: {
+      ...DEFAULT_RATING_SETTINGS,
+      rating_style: 'emoji',
+      min_label: 'Very unhappy',
+      max_label: 'Very happy',
+    },
+  },
+]
+
+// Upper bound on the number of points a scale may have, to keep it usable on a phone
+export const MAX_RATING_POINTS = 21
+
+const EMOJI_SCALE = ['😞', '🙁', '😐', '🙂', '😄']
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+// Rating and NPS questions are both answered by picking a point on a scale
+export const isScaleQuestion = (question: { question_type?: string }) =>
+  question.question_type === 'rating' || question.question_type === 'nps'
+
+export type ScaledQuestion = Pick<Question, 'settings'> & { question_type?: string }
+
+export const getRatingScale = (question: ScaledQuestion): RatingScale => {
+  // NPS questions ignore their settings and always use the fixed 0–10 scale
+  const settings = { ...DEFAULT_RATING_SETTINGS, ...(question.question_type === 'nps' ? NPS_SETTINGS : question.settings) }
+  const min = settings.rating_min
+  const max = settings.rating_max > min ? settings.rating_max : min + 1
+  const step = settings.rating_step > 0 ? settings.rating_step : 1
+
+  const values: number[] = []
+  for (let value = min; value <= max + 1e-9 && values.length < MAX_RATING_POINTS; value = round(value + step)) {
+    values.push(round(value))
+  }
+
+  return {
+    min,
+    max,
+    step,
+    minLabel: settings.min_label,
+    maxLabel: settings.max_label,
+    style: settings.rating_style,
+    values,
+  }
+}
+
+// Parses a stored answer, returning null for anything that is not a point on the scale
+export const parseRating = (answer: string, scale: RatingScale) => {
+  const value = parseFloat(answer)
+  if (isNaN(value)) return null
+  return scale.values.some(point => Math.abs(point - value) < 1e-9) ? value : null
+}
+
+// Position of a value on its scale, from 0 (min) to 1 (max)
+export const normalizeRating = (value: number, scale: RatingScale) =>
+  (value - scale.min) / (scale.max - scale.min)
+
+export const ratingEmoji = (value: number, scale: RatingScale) =>
+  EMOJI_SCALE[Math.round(normalizeRating(value, scale) * (EMOJI_SCALE.length - 1))]
+
+// Checks a rating question's scale. Returns an error message or null when valid.
+export const findRatingScaleError = (settings: QuestionSettings) => {
+  const { rating_min, rating_max, rating_step } = { ...DEFAULT_RATING_SETTINGS, ...settings }
+  if (rating_max <= rating_min) return 'maximum must be greater than its minimum'
+  if (rating_step <= 0) return 'step must be greater than zero'
+  if ((rating_max - rating_min) / rating_step + 1 > MAX_RATING_POINTS) {
+    return `scale cannot have more than ${MAX_RATING_POINTS} points`
+  }
+  return null
+}
@@ -0,0 +1,85 @@
+import { AnswerValue, FormData, ResponseLimit } from '../types/form'
+import { supabase } from './supabase'
+
+// Whether a form takes one response per person, and whether it can be changed
+export type FormResponseLimit = Pick<FormData, 'response_limit' | 'allow_response_edits'>
+
+export const RESPONSE_LIMITS: { value: ResponseLimit; label: string; description: string }[] = [
+  { value: 'none', label: 'No limit', description: 'Anyone can respond any number of times.' },
+  {
+    value: 'browser',
+    label: 'Once per browser',
+    description: 'Remembered by the browser. Clearing its storage or switching browsers allows another response.',
+  },
+  {
+    value: 'email',
+    label: 'Once per verified email',
+    description: 'Respondents confirm their email address with a link before responding. An account is created for new addresses.',
+  },
+  {
+    value: 'user',
+    label: 'Once per signed in user',
+    description: 'Respondents sign in to their account before responding.',
+  },
+]
+
+// An earlier response by the current respondent, or the one behind an edit
+// link. Answers are only returned when the form lets respondents edit their response.
+export interface OwnResponse {
+  id: string
+  submitted_at: string
+  updated_at: string | null
+  can_edit: boolean
+  answers: { question_id: string; answer_text: string; answer_options: string[] | null }[]
+}
+
+const tokenKey = (formId: string) => `feedbackflow:respondent:${formId}`
+
+// The random token that identifies this browser to a form limited to one
+// response per browser, created on first use
+export const getRespondentToken = (formId: string) => {
+  let token = localStorage.getItem(tokenKey(formId))
+  if (!token) {
+    token = crypto.randomUUID()
+    localStorage.setItem(tokenKey(formId), token)
+  }
+  return token
+}
+
+export const loadOwnResponse = async (formId: string, respondentToken: string | null) => {
+  const { data, error } = await supabase.rpc('get_own_response', {
+    p_form_id: formId,
+    p_respondent_token: respondentToken,
+  })
+  if (error) throw error
+  return data as OwnResponse | null
+}
+
+// Earlier answers as the public form holds them, to fill the form in for an edit
+export const answersFromResponse = (response: OwnResponse): Record<string, AnswerValue> =>
+  Object.fromEntries(response.answers.map(answer => [answer.question_id, answer.answer_options ?? answer.answer_text]))
+
+// The response behind a private edit link, or null when the link is no longer valid
+export const loadResponseForEdit = async (formId: string, editToken: string) => {
+  const { data, error } = await supabase.rpc('get_response_for_edit', {
+    p_form_id: formId,
+    p_edit_token: editToken,
+  })
+  if (error) throw error
+  return data as OwnResponse | null
+}
+
+// The private link a respondent keeps to change their answers later
+export const editResponseUrl = (formId: string, editToken: string) =>
+  `${window.location.origin}/form/${formId}/response/${editToken}`
+
+// Emails a sign in link that brings the respondent back to the current page
+// with their address verified. Respondents need no account beforehand, so
+// one is created for a new address.
+export const sendVerificationLink = async (email: string) => {
+  const { error } = await supabase.auth.signInWithOtp({
+    email,
+    options: { emailRedirectTo: window.location.href, shouldCreateUser: true },
+  })
+  if (error) throw error
+}
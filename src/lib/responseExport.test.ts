@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest'
+import { ExportAnswer, ExportResponse, buildResponsesCsv, buildResponsesTable, buildSelectionTotals, getExportColumns } from './responseExport'
+
+const answer = (overrides: Partial<ExportAnswer> & Pick<ExportAnswer, 'question_id'>): ExportAnswer => ({
+  id: `answer-${overrides.question_id}`,
+  question_text: `Question ${overrides.question_id}`,
+  question_type: 'text',
+  order_index: 0,
+  answer_text: '',
+  answer_options: null,
+  options: [],
+  ...overrides,
+})
+
+const response = (id: string, answers: ExportAnswer[], submittedAt = '2025-07-20T10:15:00+02:00'): ExportResponse => ({
+  id,
+  form_id: 'form-1',
+  form_version_id: null,
+  submitted_at: submittedAt,
+  is_complete: true,
+  answers,
+})
+
+const name = answer({ question_id: 'name', question_text: 'Name', order_index: 0, answer_text: 'Ada' })
+const comment = answer({ question_id: 'comment', question_text: 'Comment', order_index: 1, answer_text: 'Great' })
+const colors = answer({
+  question_id: 'colors',
+  question_text: 'Colors',
+  question_type: 'checkbox',
+  order_index: 2,
+  answer_text: 'Red, Blue',
+  answer_options: ['Red', 'Blue'],
+  options: ['Red', 'Green'],
+})
+
+describe('getExportColumns', () => {
+  it('keys columns by question id in order_index order', () => {
+    const responses = [response('r1', [comment]), response('r2', [name, comment])]
+    expect(getExportColumns(responses).map(column => column.question_id)).toEqual(['name', 'comment'])
+  })
+
+  it('keeps separate columns for questions with the same text', () => {
+    const first = answer({ question_id: 'q1', question_text: 'Why?', order_index: 0 })
+    const second = answer({ question_id: 'q2', question_text: 'Why?', order_index: 1 })
+    expect(getExportColumns([response('r1', [first, second])])).toHaveLength(2)
+  })
+
+  it('adds removed checkbox options that are still selected after the current ones', () => {
+    expect(getExportColumns([response('r1', [colors])])[0].options).toEqual(['Red', 'Green', 'Blue'])
+  })
+})
+
+describe('buildResponsesTable', () => {
+  it('puts every answer under its own question when optional questions are skipped', () => {
+    const table = buildResponsesTable([response('r1', [comment]), response('r2', [name, comment])])
+    expect(table).toEqual([
+      ['Response ID', 'Submitted At', 'Name', 'Comment'],
+      ['r1', '2025-07-20T08:15:00.000Z', undefined, 'Great'],
+      ['r2', '2025-07-20T08:15:00.000Z', 'Ada', 'Great'],
+    ])
+  })
+
+  it('keeps columns for questions removed from the form', () => {
+    const removed = answer({ question_id: 'old', question_text: 'Old question', order_index: 5, answer_text: 'Kept' })
+    const table = buildResponsesTable([response('r1', [name, removed]), response('r2', [name])])
+    expect(table[0]).toContain('Old question')
+    expect(table[1][table[0].indexOf('Old question')]).toBe('Kept')
+  })
+
+  it('writes timestamps as ISO 8601 in UTC', () => {
+    const table = buildResponsesTable([response('r1', [name], '2025-01-02T03:04:05-05:00')])
+    expect(table[1][1]).toBe('2025-01-02T08:04:05.000Z')
+  })
+
+  it('has exactly one row per response after the headers', () => {
+    const table = buildResponsesTable([response('r1', [colors]), response('r2', [colors])])
+    expect(table).toHaveLength(3)
+    expect(table[0].slice(-3)).toEqual(['Colors: Red', 'Colors: Green', 'Colors: Blue'])
+    expect(table[1].slice(-3)).toEqual([1, 0, 1])
+  })
+})
+
+describe('buildSelectionTotals', () => {
+  it('counts selections per checkbox option', () => {
+    const redOnly = { ...colors, answer_options: ['Red'], answer_text: 'Red' }
+    expect(buildSelectionTotals([response('r1', [colors]), response('r2', [redOnly])])).toEqual([
+      ['Question', 'Option', 'Selections'],
+      ['Colors', 'Red', 2],
+      ['Colors', 'Green', 0],
+      ['Colors', 'Blue', 1],
+    ])
+  })
+})
+
+describe('buildResponsesCsv', () => {
+  it('escapes answers and starts with a byte order mark for Excel', () => {
+    const quoted = { ...comment, answer_text: 'Said "wow",\nthen left' }
+    const csv = buildResponsesCsv([response('r1', [quoted])], { bom: true })
+    expect(csv).toBe('\uFEFFResponse ID,Submitted At,Comment\r\nr1,2025-07-20T08:15:00.000Z,"Said ""wow"",\nthen left"\r\n')
+  })
+})
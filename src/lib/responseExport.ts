@@ -0,0 +1,283 @@
+import { FormResponse, QuestionType } from '../types/form'
+import { CsvOptions, CsvValue, downloadFile, toCsv } from './csv'
+import { ResponseCursor } from './pagination'
+
+// Shared shape of exported responses, whichever page they were loaded on
+
+export interface ExportAnswer {
+  id: string
+  question_id: string
+  question_text: string
+  question_type: QuestionType
+  order_index: number
+  answer_text: string
+  answer_options: string[] | null
+  // The question's current options, for the per-option checkbox columns
+  options: string[]
+}
+
+export interface ExportResponse {
+  id: string
+  form_id: string
+  form_version_id: string | null
+  submitted_at: string
+  is_complete: boolean
+  form_title?: string
+  ip_address?: string | null
+  answers: ExportAnswer[]
+}
+
+export interface ExportColumn {
+  question_id: string
+  question_text: string
+  question_type: QuestionType
+  // Checkbox questions only: current options followed by removed ones still selected
+  options: string[]
+}
+
+export type ExportFormat = 'csv' | 'excel_csv' | 'xlsx' | 'json' | 'ndjson'
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; description: string }[] = [
+  { value: 'csv', label: 'CSV', description: 'Plain UTF-8 for spreadsheets and scripts' },
+  { value: 'excel_csv', label: 'CSV for Excel', description: 'With a byte order mark so accents and emoji survive' },
+  { value: 'xlsx', label: 'Excel workbook', description: 'One sheet per form plus summary and option totals sheets' },
+  { value: 'json', label: 'JSON', description: 'Pretty-printed array of responses with their answers' },
+  { value: 'ndjson', label: 'NDJSON', description: 'One response per line, for large exports and data pipelines' },
+]
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  csv: 'csv',
+  excel_csv: 'csv',
+  xlsx: 'xlsx',
+  json: 'json',
+  ndjson: 'ndjson',
+}
+
+export interface ResponsesTableOptions {
+  includeFormTitle?: boolean
+  includeIpAddress?: boolean
+}
+
+export interface ResponsesCsvOptions extends ResponsesTableOptions, CsvOptions {}
+
+export interface ResponsePage {
+  items: ExportResponse[]
+  nextCursor: ResponseCursor | null
+}
+
+// One column per question answered in any response, keyed by question id so a
+// skipped optional question never shifts the others. Questions are ordered by
+// order_index, grouped by form in the order the forms first appear.
+export const getExportColumns = (responses: ExportResponse[]): ExportColumn[] => {
+  const formRanks = new Map<string, number>()
+  const columns = new Map<string, ExportColumn & { rank: number; order_index: number }>()
+
+  responses.forEach(response => {
+    if (!formRanks.has(response.form_id)) formRanks.set(response.form_id, formRanks.size)
+
+    response.answers.forEach(answer => {
+      const column = columns.get(answer.question_id) || {
+        question_id: answer.question_id,
+        question_text: answer.question_text,
+        question_type: answer.question_type,
+        options: answer.question_type === 'checkbox' ? answer.options.filter(option => option.trim()) : [],
+        rank: formRanks.get(response.form_id) as number,
+        order_index: answer.order_index,
+      }
+      columns.set(answer.question_id, column)
+
+      if (answer.question_type === 'checkbox') {
+        (answer.answer_options || []).forEach(option => {
+          if (!column.options.includes(option)) column.options.push(option)
+        })
+      }
+    })
+  })
+
+  return Array.from(columns.values())
+    .sort((a, b) => a.rank - b.rank || a.order_index - b.order_index)
+    .map(({ question_id, question_text, question_type, options }) => ({ question_id, question_text, question_type, options }))
+}
+
+// Responses as rows with an answer column per question, then a 1/0 column per
+// checkbox option so selections can be summed in a spreadsheet. Every row after
+// the headers is one response. Timestamps are written as ISO 8601 in UTC.
+export const buildResponsesTable = (responses: ExportResponse[], options: ResponsesTableOptions = {}) => {
+  const { includeFormTitle = false, includeIpAddress = false } = options
+  const columns = getExportColumns(responses)
+  const optionColumns = columns.filter(column => column.options.length > 0)
+
+  const baseHeaders = [
+    'Response ID',
+    ...(includeFormTitle ? ['Form Title'] : []),
+    'Submitted At',
+    ...(includeIpAddress ? ['IP Address'] : []),
+  ]
+  const headers = [
+    ...baseHeaders,
+    ...columns.map(column => column.question_text),
+    ...optionColumns.flatMap(column => column.options.map(option => `${column.question_text}: ${option}`)),
+  ]
+
+  const rows: CsvValue[][] = responses.map(response => {
+    const answers = new Map(response.answers.map(answer => [answer.question_id, answer]))
+
+    const optionData = optionColumns.flatMap(column => {
+      const selected = answers.get(column.question_id)?.answer_options || []
+      return column.options.map(option => (selected.includes(option) ? 1 : 0))
+    })
+
+    return [
+      response.id,
+      ...(includeFormTitle ? [response.form_title] : []),
+      new Date(response.submitted_at).toISOString(),
+      ...(includeIpAddress ? [response.ip_address] : []),
+      ...columns.map(column => answers.get(column.question_id)?.answer_text),
+      ...optionData,
+    ]
+  })
+
+  return [headers, ...rows]
+}
+
+// How often each checkbox option was selected, one row per option, kept apart
+// from the response rows so totals are never read as a respondent
+export const buildSelectionTotals = (responses: ExportResponse[]): CsvValue[][] => {
+  const optionColumns = getExportColumns(responses).filter(column => column.options.length > 0)
+
+  return [
+    ['Question', 'Option', 'Selections'],
+    ...optionColumns.flatMap(column => column.options.map(option => [
+      column.question_text,
+      option,
+      responses.filter(response => response.answers.some(answer =>
+        answer.question_id === column.question_id && (answer.answer_options || []).includes(option)
+      )).length,
+    ])),
+  ]
+}
+
+export const buildResponsesCsv = (responses: ExportResponse[], options: ResponsesCsvOptions = {}) => {
+  const { bom, ...tableOptions } = options
+  return toCsv(buildResponsesTable(responses, tableOptions), { bom })
+}
+
+// A response as stored, matching the FormResponse and Answer types
+export const toFormResponse = (response: ExportResponse): FormResponse => ({
+  id: response.id,
+  form_id: response.form_id,
+  form_version_id: response.form_version_id,
+  submitted_at: response.submitted_at,
+  is_complete: response.is_complete,
+  answers: response.answers.map(answer => ({
+    id: answer.id,
+    question_id: answer.question_id,
+    answer_text: answer.answer_text,
+    answer_options: answer.answer_options,
+  })),
+})
+
+export const buildResponsesJson = (responses: ExportResponse[]) =>
+  JSON.stringify(responses.map(toFormResponse), null, 2)
+
+export const toNdjsonLines = (responses: ExportResponse[]) =>
+  responses.map(response => `${JSON.stringify(toFormResponse(response))}\n`)
+
+// Excel sheet names are at most 31 characters, unique, and cannot contain []:*?/\
+const sheetName = (title: string, taken: Set<string>) => {
+  const base = (title.replace(/[[\]:*?/\\]/g, ' ').trim() || 'Form').slice(0, 31)
+  let name = base
+  for (let copy = 2; taken.has(name.toLowerCase()); copy++) {
+    const suffix = ` (${copy})`
+    name = `${base.slice(0, 31 - suffix.length)}${suffix}`
+  }
+  taken.add(name.toLowerCase())
+  return name
+}
+
+// Workbook with a summary sheet listing every form, a sheet of checkbox option
+// totals when there are checkbox answers, then one sheet of responses per form
+export const buildResponsesWorkbook = async (responses: ExportResponse[], options: ResponsesTableOptions = {}) => {
+  // SheetJS is only needed here, so keep it out of the main bundle
+  const XLSX = await import('xlsx')
+
+  const forms = new Map<string, { title: string; responses: ExportResponse[] }>()
+  responses.forEach(response => {
+    const form = forms.get(response.form_id) || { title: response.form_title || 'Form', responses: [] }
+    form.responses.push(response)
+    forms.set(response.form_id, form)
+  })
+
+  const workbook = XLSX.utils.book_new()
+  const taken = new Set<string>()
+
+  // Responses are newest first, so the first is the latest submission
+  const summary = [
+    ['Form', 'Responses', 'Complete', 'Partial', 'First Response', 'Latest Response'],
+    ...Array.from(forms.values()).map(form => {
+      const complete = form.responses.filter(response => response.is_complete).length
+      return [
+        form.title,
+        form.responses.length,
+        complete,
+        form.responses.length - complete,
+        new Date(form.responses[form.responses.length - 1].submitted_at).toISOString(),
+        new Date(form.responses[0].submitted_at).toISOString(),
+      ]
+    }),
+  ]
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(summary), sheetName('Summary', taken))
+
+  const selectionTotals = buildSelectionTotals(responses)
+  if (selectionTotals.length > 1) {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(selectionTotals), sheetName('Selection Totals', taken))
+  }
+
+  forms.forEach(form => {
+    const table = buildResponsesTable(form.responses, { ...options, includeFormTitle: false })
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(table), sheetName(form.title, taken))
+  })
+
+  return XLSX.write(workbook, { bookType: 'xlsx', type: 'array' }) as ArrayBuffer
+}
+
+// Fetches every page of responses and downloads them as `<basename>.<ext>`.
+// NDJSON is serialized page by page, so only the text is kept, not the rows.
+export const exportResponses = async (
+  fetchPage: (cursor: ResponseCursor | null) => Promise<ResponsePage>,
+  format: ExportFormat,
+  basename: string,
+  options: ResponsesTableOptions = {}
+) => {
+  const responses: ExportResponse[] = []
+  const lines: string[] = []
+  let cursor: ResponseCursor | null = null
+  do {
+    const page = await fetchPage(cursor)
+    if (format === 'ndjson') {
+      lines.push(...toNdjsonLines(page.items))
+    } else {
+      responses.push(...page.items)
+    }
+    cursor = page.nextCursor
+  } while (cursor)
+
+  const filename = `${basename}.${FILE_EXTENSIONS[format]}`
+  switch (format) {
+    case 'xlsx':
+      downloadFile(
+        await buildResponsesWorkbook(responses, options),
+        filename,
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      )
+      break
+    case 'json':
+      downloadFile(buildResponsesJson(responses), filename, 'application/json')
+      break
+    case 'ndjson':
+      downloadFile(lines, filename, 'application/x-ndjson')
+      break
+    default:
+      downloadFile(buildResponsesCsv(responses, { ...options, bom: format === 'excel_csv' }), filename, 'text/csv;charset=utf-8')
+  }
+}
@@ -0,0 +1,100 @@
+// Filters of the responses list. They are kept in the URL query string so a
+// filtered view can be bookmarked and shared; empty values mean "no filter".
+
+export type CompletionStatus = 'complete' | 'partial'
+
+export interface ResponseFilters {
+  // Full-text search over the answers
+  query: string
+  formId: string | null
+  // Calendar days such as "2025-07-01", both inclusive, in the viewer's time zone
+  from: string
+  to: string
+  // Responses that answered the question with `value`
+  questionId: string | null
+  value: string
+  // Rating or NPS answers within the range, of `questionId` when set
+  ratingMin: number | null
+  ratingMax: number | null
+  status: CompletionStatus | null
+}
+
+export const EMPTY_FILTERS: ResponseFilters = {
+  query: '',
+  formId: null,
+  from: '',
+  to: '',
+  questionId: null,
+  value: '',
+  ratingMin: null,
+  ratingMax: null,
+  status: null,
+}
+
+export const COMPLETION_STATUSES: { value: CompletionStatus; label: string }[] = [
+  { value: 'complete', label: 'Complete' },
+  { value: 'partial', label: 'Partial' },
+]
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+const parseDay = (value: string | null) => (value && DAY_PATTERN.test(value) ? value : '')
+
+const parseNumber = (value: string | null) => {
+  if (value === null || value.trim() === '') return null
+  const number = Number(value)
+  return Number.isFinite(number) ? number : null
+}
+
+export const parseResponseFilters = (params: URLSearchParams): ResponseFilters => {
+  const status = params.get('status')
+  return {
+    query: params.get('q') || '',
+    formId: params.get('form') || null,
+    from: parseDay(params.get('from')),
+    to: parseDay(params.get('to')),
+    questionId: params.get('question') || null,
+    value: params.get('value') || '',
+    ratingMin: parseNumber(params.get('rating_min')),
+    ratingMax: parseNumber(params.get('rating_max')),
+    status: status === 'complete' || status === 'partial' ? status : null,
+  }
+}
+
+// Query string for the filters, leaving out the ones that are not set
+export const toSearchParams = (filters: ResponseFilters) => {
+  const params = new URLSearchParams()
+  if (filters.query.trim()) params.set('q', filters.query.trim())
+  if (filters.formId) params.set('form', filters.formId)
+  if (filters.from) params.set('from', filters.from)
+  if (filters.to) params.set('to', filters.to)
+  if (filters.questionId) params.set('question', filters.questionId)
+  if (filters.value) params.set('value', filters.value)
+  if (filters.ratingMin !== null) params.set('rating_min', filters.ratingMin.toString())
+  if (filters.ratingMax !== null) params.set('rating_max', filters.ratingMax.toString())
+  if (filters.status) params.set('status', filters.status)
+  return params
+}
+
+export const hasActiveFilters = (filters: ResponseFilters) => toSearchParams(filters).toString() !== ''
+
+// Local midnight of a calendar day, `offsetDays` later, as an ISO timestamp
+const startOfDay = (day: string, offsetDays = 0) => {
+  const date = new Date(`${day}T00:00:00`)
+  date.setDate(date.getDate() + offsetDays)
+  return date.toISOString()
+}
+
+// Arguments of the search_responses database function
+export const toSearchArgs = (filters: ResponseFilters) => ({
+  p_form_id: filters.formId,
+  p_query: filters.query.trim() || null,
+  p_submitted_after: filters.from ? startOfDay(filters.from) : null,
+  // The end day is inclusive, so search up to the start of the next one
+  p_submitted_before: filters.to ? startOfDay(filters.to, 1) : null,
+  p_question_id: filters.questionId,
+  p_value: filters.value || null,
+  p_rating_min: filters.ratingMin,
+  p_rating_max: filters.ratingMax,
+  p_is_complete: filters.status === null ? null : filters.status === 'complete',
+})
@@ -0,0 +1,40 @@
+import { supabase } from './supabase'
+
+// A stable hash of what the browser reveals about the device, so the database
+// can also rate limit a device that changes its address. Null where the
+// browser cannot hash, outside a secure context.
+export const getClientFingerprint = async () => {
+  if (!window.crypto?.subtle) return null
+
+  const traits = [
+    navigator.userAgent,
+    navigator.language,
+    `${window.screen.width}x${window.screen.height}x${window.screen.colorDepth}`,
+    Intl.DateTimeFormat().resolvedOptions().timeZone,
+  ].join('|')
+
+  const digest = await window.crypto.subtle.digest('SHA-256', new TextEncoder().encode(traits))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+// Flags a response as spam, or clears the flag of a legitimate one
+export const setResponseSpam = async (responseId: string, isSpam: boolean) => {
+  const { error } = await supabase
+    .from('responses')
+    .update({ is_spam: isSpam, spam_reason: isSpam ? 'Flagged by the form owner' : null })
+    .eq('id', responseId)
+
+  if (error) throw error
+}
+
+// Deletes every response to a form that is flagged as spam, returning how many were deleted
+export const deleteSpamResponses = async (formId: string) => {
+  const { count, error } = await supabase
+    .from('responses')
+    .delete({ count: 'exact' })
+    .eq('form_id', formId)
+    .eq('is_spam', true)
+
+  if (error) throw error
+  return count ?? 0
+}
@@ -0,0 +1,258 @@
+import { FormData, Question, QuestionLogic, QuestionSettings, QuestionType } from '../types/form'
+import { supabase } from './supabase'
+import { copyQuestions } from './forms'
+import { DEFAULT_RATING_SETTINGS } from './rating'
+
+export interface FormTemplate {
+  id: string
+  title: string
+  description: string
+  questions: Question[]
+  // Built-in templates ship with the app; the rest belong to the user
+  is_built_in: boolean
+}
+
+interface TemplateQuestion {
+  id: string
+  text: string
+  type: QuestionType
+  options?: string[]
+  required?: boolean
+  logic?: QuestionLogic
+  settings?: QuestionSettings
+}
+
+// Built-in questions use readable ids; they are replaced when a form is created from them
+const toQuestions = (questions: TemplateQuestion[]): Question[] =>
+  questions.map((q, index) => ({
+    id: q.id,
+    question_text: q.text,
+    question_type: q.type,
+    options: q.options || [],
+    is_required: q.required ?? true,
+    order_index: index,
+    logic: q.logic || {},
+    settings: q.settings || {},
+  }))
+
+export const BUILT_IN_TEMPLATES: FormTemplate[] = [
+  {
+    id: 'customer-satisfaction',
+    title: 'Customer Satisfaction',
+    description: 'Tell us how we did. Your feedback helps us improve.',
+    is_built_in: true,
+    questions: toQuestions([
+      {
+        id: 'overall',
+        text: 'Overall, how satisfied are you with our service?',
+        type: 'rating',
+        settings: { ...DEFAULT_RATING_SETTINGS, rating_style: 'stars', min_label: 'Very dissatisfied', max_label: 'Very satisfied' },
+      },
+      {
+        id: 'liked',
+        text: 'What did you like most?',
+        type: 'checkbox',
+        options: ['Product quality', 'Price', 'Customer support', 'Delivery speed', 'Ease of use'],
+        required: false,
+      },
+      {
+        id: 'improve',
+        text: 'What could we have done better?',
+        type: 'text',
+        logic: { show_if: [{ question_id: 'overall', operator: 'less_than_or_equal', value: '3' }] },
+      },
+      {
+        id: 'again',
+        text: 'Would you use our service again?',
+        type: 'multiple_choice',
+        options: ['Definitely', 'Probably', 'Not sure', 'Probably not', 'Definitely not'],
+      },
+    ]),
+  },
+  {
+    id: 'net-promoter-score',
+    title: 'Net Promoter Score',
+    description: 'A quick question about how likely you are to recommend us.',
+    is_built_in: true,
+    questions: toQuestions([
+      {
+        id: 'recommend',
+        text: 'How likely are you to recommend us to a friend or colleague?',
+        type: 'nps',
+      },
+      {
+        id: 'reason',
+        text: 'What is the main reason for your score?',
+        type: 'text',
+        required: false,
+      },
+    ]),
+  },
+  {
+    id: 'event-feedback',
+    title: 'Event Feedback',
+    description: 'Thanks for attending! Let us know how the event went.',
+    is_built_in: true,
+    questions: toQuestions([
+      {
+        id: 'overall',
+        text: 'How would you rate the event overall?',
+        type: 'rating',
+        settings: DEFAULT_RATING_SETTINGS,
+      },
+      {
+        id: 'sessions',
+        text: 'Which parts of the event did you find most valuable?',
+        type: 'checkbox',
+        options: ['Keynotes', 'Workshops', 'Panel discussions', 'Networking', 'Exhibitors'],
+        required: false,
+      },
+      {
+        id: 'organization',
+        text: 'How well was the event organized?',
+        type: 'rating',
+        settings: { ...DEFAULT_RATING_SETTINGS, min_label: 'Poorly', max_label: 'Very well' },
+      },
+      {
+        id: 'attend-again',
+        text: 'Would you attend this event again?',
+        type: 'multiple_choice',
+        options: ['Yes', 'Maybe', 'No'],
+      },
+      {
+        id: 'suggestions',
+        text: 'Any suggestions for next time?',
+        type: 'text',
+        required: false,
+      },
+    ]),
+  },
+  {
+    id: 'employee-pulse',
+    title: 'Employee Pulse',
+    description: 'A short, anonymous check-in on how things are going at work.',
+    is_built_in: true,
+    questions: toQuestions([
+      {
+        id: 'workload',
+        text: 'My workload is manageable.',
+        type: 'rating',
+        settings: { ...DEFAULT_RATING_SETTINGS, min_label: 'Strongly disagree', max_label: 'Strongly agree' },
+      },
+      {
+        id: 'supported',
+        text: 'I feel supported by my manager.',
+        type: 'rating',
+        settings: { ...DEFAULT_RATING_SETTINGS, min_label: 'Strongly disagree', max_label: 'Strongly agree' },
+      },
+      {
+        id: 'mood',
+        text: 'How are you feeling about work this week?',
+        type: 'rating',
+        settings: { ...DEFAULT_RATING_SETTINGS, rating_style: 'emoji', min_label: 'Very unhappy', max_label: 'Very happy' },
+      },
+      {
+        id: 'enps',
+        text: 'How likely are you to recommend this company as a place to work?',
+        type: 'nps',
+      },
+      {
+        id: 'change',
+        text: 'What is one thing we could change to make work better?',
+        type: 'text',
+        required: false,
+      },
+    ]),
+  },
+  {
+    id: 'bug-report',
+    title: 'Bug Report',
+    description: 'Found something that does not work? Tell us what happened.',
+    is_built_in: true,
+    questions: toQuestions([
+      {
+        id: 'summary',
+        text: 'Briefly describe the problem',
+        type: 'text',
+      },
+      {
+        id: 'area',
+        text: 'Where did it happen?',
+        type: 'multiple_choice',
+        options: ['Web app', 'iOS app', 'Android app', 'API', 'Other'],
+      },
+      {
+        id: 'severity',
+        text: 'How severe is it?',
+        type: 'multiple_choice',
+        options: ['Blocks my work', 'Major inconvenience', 'Minor issue', 'Cosmetic'],
+      },
+      {
+        id: 'details',
+        text: 'Details',
+        type: 'page_break',
+        required: false,
+      },
+      {
+        id: 'steps',
+        text: 'What steps lead to the problem?',
+        type: 'text',
+      },
+      {
+        id: 'expected',
+        text: 'What did you expect to happen instead?',
+        type: 'text',
+        required: false,
+      },
+    ]),
+  },
+]
+
+// The user's own templates, newest first
+export const loadUserTemplates = async (userId: string): Promise<FormTemplate[]> => {
+  const { data, error } = await supabase
+    .from('form_templates')
+    .select('id, title, description, questions')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+
+  return (data || []).map(template => ({
+    ...template,
+    description: template.description || '',
+    is_built_in: false,
+  }))
+}
+
+// Snapshots a form's title, description and questions as a private template
+export const saveAsTemplate = async (userId: string, formData: FormData) => {
+  const { error } = await supabase
+    .from('form_templates')
+    .insert({
+      user_id: userId,
+      title: formData.title,
+      description: formData.description,
+      // Copies hold only the question fields, not the columns of the source rows
+      questions: copyQuestions(formData.questions),
+    })
+
+  if (error) throw error
+}
+
+export const deleteTemplate = async (templateId: string) => {
+  const { error } = await supabase
+    .from('form_templates')
+    .delete()
+    .eq('id', templateId)
+
+  if (error) throw error
+}
+
+// A new, unsaved form pre-populated from a template
+export const formFromTemplate = (template: FormTemplate): FormData => ({
+  title: template.title,
+  description: template.description,
+  is_active: true,
+  questions: copyQuestions(template.questions),
+})
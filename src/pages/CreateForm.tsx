@@ -1,6 +1,6 @@
-import React, { useState } from 'react'
+import React, { useCallback, useEffect, useState } from 'react'
 import { useNavigate } from 'react-router-dom'
-import { ArrowLeft, Plus, Eye, Save } from 'lucide-react'
+import { ArrowLeft, Plus, Eye, Save, SeparatorHorizontal, LayoutTemplate } from 'lucide-react'
 import { Button } from '../components/ui/button'
 import { Input } from '../components/ui/input'
 import { Label } from '../components/ui/label'
@@ -10,23 +10,63 @@ import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
 import { Separator } from '../components/ui/separator'
 import { QuestionEditor } from '../components/FormBuilder/QuestionEditor'
 import { FormPreview } from '../components/FormBuilder/FormPreview'
+import { TemplateGallery } from '../components/FormBuilder/TemplateGallery'
+import { ScheduleSettings } from '../components/FormBuilder/ScheduleSettings'
+import { ResponseLimitSettings } from '../components/FormBuilder/ResponseLimitSettings'
 import { FormData, Question } from '../types/form'
-import { supabase } from '../lib/supabase'
+import { removeLogicReferences } from '../lib/formLogic'
+import { createForm, findFormError } from '../lib/forms'
+import { BUILT_IN_TEMPLATES, FormTemplate, deleteTemplate, formFromTemplate, loadUserTemplates } from '../lib/templates'
 import { useAuth } from '../contexts/AuthContext'
 
+const BLANK_FORM: FormData = {
+  title: '',
+  description: '',
+  is_active: true,
+  questions: [],
+}
+
 export const CreateForm: React.FC = () => {
   const navigate = useNavigate()
   const { user } = useAuth()
   const [showPreview, setShowPreview] = useState(false)
   const [saving, setSaving] = useState(false)
   const [error, setError] = useState('')
+  // The gallery is shown until a template or a blank form is picked
+  const [showTemplates, setShowTemplates] = useState(true)
+  const [userTemplates, setUserTemplates] = useState<FormTemplate[]>([])
 
-  const [formData, setFormData] = useState<FormData>({
-    title: '',
-    description: '',
-    is_active: true,
-    questions: [],
-  })
+  const [formData, setFormData] = useState<FormData>(BLANK_FORM)
+
+  const loadTemplates = useCallback(async () => {
+    if (!user) return
+    try {
+      setUserTemplates(await loadUserTemplates(user.id))
+    } catch (err) {
+      console.error('Error loading templates:', err)
+    }
+  }, [user])
+
+  useEffect(() => {
+    loadTemplates()
+  }, [loadTemplates])
+
+  const selectTemplate = (template: FormTemplate | null) => {
+    if (formData.questions.length > 0 && !window.confirm('Replace the questions you have added so far?')) return
+    setFormData(template ? formFromTemplate(template) : BLANK_FORM)
+    setShowTemplates(false)
+    setError('')
+  }
+
+  const removeTemplate = async (template: FormTemplate) => {
+    if (!window.confirm(`Delete the template "${template.title}"?`)) return
+    try {
+      await deleteTemplate(template.id)
+      setUserTemplates(prev => prev.filter(t => t.id !== template.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete template')
+    }
+  }
 
   const updateFormData = (updates: Partial<FormData>) => {
     setFormData(prev => ({ ...prev, ...updates }))
@@ -34,18 +74,37 @@ export const CreateForm: React.FC = () => {
 
   const addQuestion = () => {
     const newQuestion: Question = {
-      id: `temp-${Date.now()}`,
+      // Real ids up front so logic conditions can reference unsaved questions
+      id: crypto.randomUUID(),
       question_text: '',
       question_type: 'text',
       options: [],
       is_required: true,
       order_index: formData.questions.length,
+      logic: {},
+      settings: {},
     }
     updateFormData({
       questions: [...formData.questions, newQuestion]
     })
   }
 
+  const addPageBreak = () => {
+    const pageBreak: Question = {
+      id: crypto.randomUUID(),
+      question_text: '',
+      question_type: 'page_break',
+      options: [],
+      is_required: false,
+      order_index: formData.questions.length,
+      logic: {},
+      settings: {},
+    }
+    updateFormData({
+      questions: [...formData.questions, pageBreak]
+    })
+  }
+
   const updateQuestion = (questionId: string, updates: Question) => {
     updateFormData({
       questions: formData.questions.map(q => 
@@ -55,9 +114,10 @@ export const CreateForm: React.FC = () => {
   }
 
   const deleteQuestion = (questionId: string) => {
-    const filteredQuestions = formData.questions
-      .filter(q => q.id !== questionId)
-      .map((q, index) => ({ ...q, order_index: index }))
+    const filteredQuestions = removeLogicReferences(
+      formData.questions.filter(q => q.id !== questionId),
+      questionId
+    ).map((q, index) => ({ ...q, order_index: index }))
     
     updateFormData({ questions: filteredQuestions })
   }
@@ -90,58 +150,12 @@ export const CreateForm: React.FC = () => {
     setError('')
 
     try {
-      // Validate form
-      if (!formData.title.trim()) {
-        throw new Error('Form title is required')
-      }
-
-      if (formData.questions.length === 0) {
-        throw new Error('At least one question is required')
+      const formError = findFormError(formData)
+      if (formError) {
+        throw new Error(formError)
       }
 
-      // Check for empty questions
-      const emptyQuestions = formData.questions.filter(q => !q.question_text.trim())
-      if (emptyQuestions.length > 0) {
-        throw new Error('All questions must have text')
-      }
-
-      // Check for multiple choice questions without options
-      const invalidMultipleChoice = formData.questions.filter(
-        q => q.question_type === 'multiple_choice' && q.options.filter(opt => opt.trim()).length === 0
-      )
-      if (invalidMultipleChoice.length > 0) {
-        throw new Error('Multiple choice questions must have at least one option')
-      }
-
-      // Create form in database
-      const { data: form, error: formError } = await supabase
-        .from('forms')
-        .insert({
-          user_id: user.id,
-          title: formData.title.trim(),
-          description: formData.description.trim(),
-          is_active: formData.is_active,
-        })
-        .select()
-        .single()
-
-      if (formError) throw formError
-
-      // Create questions
-      const questionsToInsert = formData.questions.map(q => ({
-        form_id: form.id,
-        question_text: q.question_text.trim(),
-        question_type: q.question_type,
-        options: q.question_type === 'multiple_choice' ? q.options.filter(opt => opt.trim()) : [],
-        is_required: q.is_required,
-        order_index: q.order_index,
-      }))
-
-      const { error: questionsError } = await supabase
-        .from('questions')
-        .insert(questionsToInsert)
-
-      if (questionsError) throw questionsError
+      await createForm(formData)
 
       // Navigate to forms list
       navigate('/forms')
@@ -174,24 +188,34 @@ export const CreateForm: React.FC = () => {
               </p>
             </div>
           </div>
-          <div className="flex items-center space-x-2">
-            <Button
-              variant="outline"
-              onClick={() => setShowPreview(!showPreview)}
-              className="flex items-center"
-            >
-              <Eye className="h-4 w-4 mr-2" />
-              {showPreview ? 'Hide Preview' : 'Show Preview'}
-            </Button>
-            <Button
-              onClick={saveForm}
-              disabled={saving || !formData.title.trim() || formData.questions.length === 0}
-              className="flex items-center"
-            >
-              <Save className="h-4 w-4 mr-2" />
-              {saving ? 'Saving...' : 'Save Form'}
-            </Button>
-          </div>
+          {!showTemplates && (
+            <div className="flex items-center space-x-2">
+              <Button
+                variant="outline"
+                onClick={() => setShowTemplates(true)}
+                className="flex items-center"
+              >
+                <LayoutTemplate className="h-4 w-4 mr-2" />
+                Templates
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setShowPreview(!showPreview)}
+                className="flex items-center"
+              >
+                <Eye className="h-4 w-4 mr-2" />
+                {showPreview ? 'Hide Preview' : 'Show Preview'}
+              </Button>
+              <Button
+                onClick={saveForm}
+                disabled={saving || !formData.title.trim() || formData.questions.length === 0}
+                className="flex items-center"
+              >
+                <Save className="h-4 w-4 mr-2" />
+                {saving ? 'Saving...' : 'Save Form'}
+              </Button>
+            </div>
+          )}
         </div>
 
         {error && (
@@ -200,106 +224,131 @@ export const CreateForm: React.FC = () => {
           </div>
         )}
 
-        <div className={`grid gap-8 ${showPreview ? 'lg:grid-cols-2' : 'lg:grid-cols-1'}`}>
-          {/* Form Builder */}
-          <div className="space-y-6">
-            {/* Form Settings */}
-            <Card>
-              <CardHeader>
-                <CardTitle>Form Settings</CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="form-title">Form Title</Label>
-                  <Input
-                    id="form-title"
-                    value={formData.title}
-                    onChange={(e) => updateFormData({ title: e.target.value })}
-                    placeholder="Enter form title..."
-                  />
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="form-description">Description (Optional)</Label>
-                  <Textarea
-                    id="form-description"
-                    value={formData.description}
-                    onChange={(e) => updateFormData({ description: e.target.value })}
-                    placeholder="Describe what this form is for..."
-                    className="min-h-[80px]"
-                  />
-                </div>
+        {showTemplates ? (
+          <TemplateGallery
+            builtInTemplates={BUILT_IN_TEMPLATES}
+            userTemplates={userTemplates}
+            onSelect={selectTemplate}
+            onDelete={removeTemplate}
+          />
+        ) : (
+          <div className={`grid gap-8 ${showPreview ? 'lg:grid-cols-2' : 'lg:grid-cols-1'}`}>
+            {/* Form Builder */}
+            <div className="space-y-6">
+              {/* Form Settings */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Form Settings</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="form-title">Form Title</Label>
+                    <Input
+                      id="form-title"
+                      value={formData.title}
+                      onChange={(e) => updateFormData({ title: e.target.value })}
+                      placeholder="Enter form title..."
+                    />
+                  </div>
 
-                <div className="flex items-center space-x-2">
-                  <Switch
-                    id="form-active"
-                    checked={formData.is_active}
-                    onCheckedChange={(checked) => updateFormData({ is_active: checked })}
-                  />
-                  <Label htmlFor="form-active">
-                    Active (form will be available for responses)
-                  </Label>
-                </div>
-              </CardContent>
-            </Card>
+                  <div className="space-y-2">
+                    <Label htmlFor="form-description">Description (Optional)</Label>
+                    <Textarea
+                      id="form-description"
+                      value={formData.description}
+                      onChange={(e) => updateFormData({ description: e.target.value })}
+                      placeholder="Describe what this form is for..."
+                      className="min-h-[80px]"
+                    />
+                  </div>
 
-            {/* Questions */}
-            <Card>
-              <CardHeader>
-                <div className="flex items-center justify-between">
-                  <CardTitle>Questions</CardTitle>
-                  <Button onClick={addQuestion} size="sm">
-                    <Plus className="h-4 w-4 mr-2" />
-                    Add Question
-                  </Button>
-                </div>
-              </CardHeader>
-              <CardContent>
-                {formData.questions.length === 0 ? (
-                  <div className="text-center py-8 text-muted-foreground">
-                    <p className="mb-4">No questions added yet.</p>
-                    <Button onClick={addQuestion} variant="outline">
-                      <Plus className="h-4 w-4 mr-2" />
-                      Add Your First Question
-                    </Button>
+                  <div className="flex items-center space-x-2">
+                    <Switch
+                      id="form-active"
+                      checked={formData.is_active}
+                      onCheckedChange={(checked) => updateFormData({ is_active: checked })}
+                    />
+                    <Label htmlFor="form-active">
+                      Active (form will be available for responses)
+                    </Label>
                   </div>
-                ) : (
-                  <div className="space-y-4">
-                    {formData.questions
-                      .sort((a, b) => a.order_index - b.order_index)
-                      .map((question, index) => (
-                        <QuestionEditor
-                          key={question.id}
-                          question={question}
-                          onUpdate={(updatedQuestion) => updateQuestion(question.id, updatedQuestion)}
-                          onDelete={() => deleteQuestion(question.id)}
-                          onMoveUp={() => moveQuestion(question.id, 'up')}
-                          onMoveDown={() => moveQuestion(question.id, 'down')}
-                          canMoveUp={index > 0}
-                          canMoveDown={index < formData.questions.length - 1}
-                        />
-                      ))}
+
+                  <ScheduleSettings schedule={formData} onChange={updateFormData} />
+
+                  <ResponseLimitSettings settings={formData} onChange={updateFormData} />
+                </CardContent>
+              </Card>
+
+              {/* Questions */}
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <CardTitle>Questions</CardTitle>
+                    <div className="flex items-center space-x-2">
+                      <Button
+                        onClick={addPageBreak}
+                        variant="outline"
+                        size="sm"
+                        disabled={formData.questions.length === 0}
+                      >
+                        <SeparatorHorizontal className="h-4 w-4 mr-2" />
+                        Add Page Break
+                      </Button>
+                      <Button onClick={addQuestion} size="sm">
+                        <Plus className="h-4 w-4 mr-2" />
+                        Add Question
+                      </Button>
+                    </div>
                   </div>
-                )}
-              </CardContent>
-            </Card>
-          </div>
+                </CardHeader>
+                <CardContent>
+                  {formData.questions.length === 0 ? (
+                    <div className="text-center py-8 text-muted-foreground">
+                      <p className="mb-4">No questions added yet.</p>
+                      <Button onClick={addQuestion} variant="outline">
+                        <Plus className="h-4 w-4 mr-2" />
+                        Add Your First Question
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="space-y-4">
+                      {formData.questions
+                        .sort((a, b) => a.order_index - b.order_index)
+                        .map((question, index) => (
+                          <QuestionEditor
+                            key={question.id}
+                            question={question}
+                            questions={formData.questions}
+                            onUpdate={(updatedQuestion) => updateQuestion(question.id, updatedQuestion)}
+                            onDelete={() => deleteQuestion(question.id)}
+                            onMoveUp={() => moveQuestion(question.id, 'up')}
+                            onMoveDown={() => moveQuestion(question.id, 'down')}
+                            canMoveUp={index > 0}
+                            canMoveDown={index < formData.questions.length - 1}
+                          />
+                        ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
 
-          {/* Preview */}
-          {showPreview && (
-            <div className="space-y-6">
-              <div className="sticky top-8">
-                <div className="flex items-center justify-between mb-4">
-                  <h2 className="text-xl font-semibold">Preview</h2>
-                  <span className="text-sm text-muted-foreground">
-                    How your form will look to users
-                  </span>
+            {/* Preview */}
+            {showPreview && (
+              <div className="space-y-6">
+                <div className="sticky top-8">
+                  <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-xl font-semibold">Preview</h2>
+                    <span className="text-sm text-muted-foreground">
+                      How your form will look to users
+                    </span>
+                  </div>
+                  <FormPreview formData={formData} />
                 </div>
-                <FormPreview formData={formData} />
               </div>
-            </div>
-          )}
-        </div>
+            )}
+          </div>
+        )}
       </div>
     </div>
   )
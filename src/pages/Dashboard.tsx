@@ -6,6 +6,16 @@ import { useAuth } from '../contexts/AuthContext'
 import { supabase } from '../lib/supabase'
 import { Button } from '../components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
+import { NpsSummary } from '../components/Analytics/NpsSummary'
+import { NpsEntry, parseNpsScore } from '../lib/nps'
+import { computeRatingStats, formatRatingStats } from '../lib/analytics'
+import {
+  getAnswerDistribution,
+  getDailyResponseCounts,
+  getFormResponseCounts,
+  getMonthlyAnswerDistribution,
+  toRatedAnswers,
+} from '../lib/aggregates'
 
 export const Dashboard: React.FC = () => {
   const { user } = useAuth()
@@ -15,6 +25,7 @@ export const Dashboard: React.FC = () => {
     thisMonth: 0,
     avgResponsesPerForm: 0,
     activeFormsCount: 0,
+    avgRating: null as string | null,
     topPerformingForm: null as { title: string; responses: number } | null
   })
   const [recentForms, setRecentForms] = useState<{
@@ -24,97 +35,87 @@ export const Dashboard: React.FC = () => {
     created: string;
   }[]>([])
   const [responsesTrend, setResponsesTrend] = useState<{ date: string; count: number }[]>([])
+  const [npsQuestions, setNpsQuestions] = useState<{
+    question_id: string;
+    question_text: string;
+    form_title: string;
+    entries: NpsEntry[];
+  }[]>([])
   const [loading, setLoading] = useState(true)
 
   const loadDashboardData = useCallback(async () => {
     try {
       setLoading(true)
 
-      // Load forms with response counts
-      const { data: formsData, error: formsError } = await supabase
-        .from('forms')
-        .select(`
-          *,
-          responses(count)
-        `)
-        .eq('user_id', user?.id)
-        .order('created_at', { ascending: false })
-        .limit(3)
-
-      if (formsError) throw formsError
-
-      // Transform forms data
-      const transformedForms = formsData?.map(form => ({
-        id: form.id,
+      // Per-form response counts, newest form first
+      const { data: formCounts, error: countsError } = await getFormResponseCounts()
+
+      if (countsError) throw countsError
+
+      setRecentForms(formCounts.slice(0, 3).map(form => ({
+        id: form.form_id,
         title: form.title,
-        responses: form.responses?.[0]?.count || 0,
+        responses: form.response_count,
         created: getRelativeTime(form.created_at)
-      })) || []
-
-      setRecentForms(transformedForms)
-
-      // Calculate total stats
-      const { data: allFormsData, error: allFormsError } = await supabase
-        .from('forms')
-        .select(`
-          id,
-          title,
-          created_at,
-          is_active,
-          responses(count)
-        `)
-        .eq('user_id', user?.id)
-
-      if (allFormsError) throw allFormsError
-
-      const totalForms = allFormsData?.length || 0
-      const totalResponses = allFormsData?.reduce((sum, form) => 
-        sum + (form.responses?.[0]?.count || 0), 0
-      ) || 0
+      })))
+
+      const totalForms = formCounts.length
+      const totalResponses = formCounts.reduce((sum, form) => sum + form.response_count, 0)
       
       // Calculate additional analytics
-      const activeFormsCount = allFormsData?.filter(form => form.is_active).length || 0
+      const activeFormsCount = formCounts.filter(form => form.is_active).length
       const avgResponsesPerForm = totalForms > 0 ? Math.round((totalResponses / totalForms) * 10) / 10 : 0
       
       // Find top performing form
-      const topPerformingForm = allFormsData?.reduce((top, form) => {
-        const responseCount = form.responses?.[0]?.count || 0
-        if (!top || responseCount > top.responses) {
-          return { title: form.title, responses: responseCount }
+      const topPerformingForm = formCounts.reduce((top, form) => {
+        if (!top || form.response_count > top.responses) {
+          return { title: form.title, responses: form.response_count }
         }
         return top
       }, null as { title: string; responses: number } | null)
 
-      // Calculate this month's responses
-      const oneMonthAgo = new Date()
-      oneMonthAgo.setMonth(oneMonthAgo.getMonth() - 1)
+      // Daily response counts for the last 30 days
+      const { data: dailyCounts, error: dailyError } = await getDailyResponseCounts(30)
+
+      if (dailyError) throw dailyError
+
+      const thisMonth = dailyCounts.reduce((sum, day) => sum + day.response_count, 0)
+      
+      // Responses trend for the last 7 days
+      setResponsesTrend(dailyCounts.slice(-7).map(day => ({ date: day.day, count: day.response_count })))
 
-      const { data: monthlyResponses, error: monthlyError } = await supabase
-        .from('responses')
-        .select('id, submitted_at, forms!inner(user_id)')
+      // Average rating across every rating question, from per-value counts
+      const { data: distribution, error: distributionError } = await getAnswerDistribution()
+
+      if (distributionError) throw distributionError
+
+      const avgRating = formatRatingStats(computeRatingStats(toRatedAnswers(distribution)))
+
+      // NPS per question, from per-month score counts
+      const { data: npsCounts, error: npsCountsError } = await getMonthlyAnswerDistribution('nps')
+
+      if (npsCountsError) throw npsCountsError
+
+      const { data: npsQuestionsData, error: npsQuestionsError } = await supabase
+        .from('questions')
+        .select('id, question_text, forms!inner(title, user_id)')
+        .eq('question_type', 'nps')
         .eq('forms.user_id', user?.id)
-        .gte('submitted_at', oneMonthAgo.toISOString())
-        .order('submitted_at')
 
-      if (monthlyError) throw monthlyError
+      if (npsQuestionsError) throw npsQuestionsError
 
-      const thisMonth = monthlyResponses?.length || 0
-      
-      // Calculate responses trend for the last 7 days
-      const last7Days = Array.from({ length: 7 }, (_, i) => {
-        const date = new Date()
-        date.setDate(date.getDate() - (6 - i))
-        return date.toISOString().split('T')[0]
-      })
-      
-      const trendData = last7Days.map(date => {
-        const count = monthlyResponses?.filter(response => 
-          response.submitted_at.startsWith(date)
-        ).length || 0
-        return { date, count }
-      })
-      
-      setResponsesTrend(trendData)
+      setNpsQuestions((npsQuestionsData || []).flatMap(question => {
+        const entries = npsCounts
+          .filter(row => row.question_id === question.id)
+          .flatMap(row => {
+            const score = parseNpsScore(row.value)
+            return score === null ? [] : [{ score, submitted_at: row.month, count: row.answer_count }]
+          })
+        if (entries.length === 0) return []
+        // The embedded form is a single row, not the array the client types suggest
+        const form = question.forms as unknown as { title: string }
+        return [{ question_id: question.id, question_text: question.question_text, form_title: form.title, entries }]
+      }))
 
       setStats({
         totalForms,
@@ -122,6 +123,7 @@ export const Dashboard: React.FC = () => {
         thisMonth,
         avgResponsesPerForm,
         activeFormsCount,
+        avgRating,
         topPerformingForm
       })
 
@@ -331,6 +333,18 @@ export const Dashboard: React.FC = () => {
                   <BarChart3 className="h-6 w-6 text-white" />
                 </div>
               </div>
+
+              {stats.avgRating && (
+                <div className="flex items-center justify-between p-4 bg-muted/50 rounded-lg">
+                  <div>
+                    <p className="text-sm text-muted-foreground">Avg Rating</p>
+                    <p className="text-2xl font-bold text-foreground">{stats.avgRating}</p>
+                  </div>
+                  <div className="bg-purple-500 p-3 rounded-lg">
+                    <MessageSquare className="h-6 w-6 text-white" />
+                  </div>
+                </div>
+              )}
               
               {stats.topPerformingForm && (
                 <div className="flex items-center justify-between p-4 bg-muted/50 rounded-lg">
@@ -387,6 +401,20 @@ export const Dashboard: React.FC = () => {
             </CardContent>
           </Card>
         </div>
+
+        {/* Net Promoter Score */}
+        {npsQuestions.length > 0 && (
+          <div className="grid lg:grid-cols-2 gap-8 mt-8 animate-slide-up">
+            {npsQuestions.map(question => (
+              <NpsSummary
+                key={question.question_id}
+                title={question.question_text}
+                subtitle={question.form_title}
+                entries={question.entries}
+              />
+            ))}
+          </div>
+        )}
       </div>
     </div>
   )
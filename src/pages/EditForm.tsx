@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react'
 import { useParams, useNavigate, Link } from 'react-router-dom'
-import { ArrowLeft, Plus, Trash2, Save, Eye } from 'lucide-react'
+import { ArrowLeft, Plus, Save, Eye, SeparatorHorizontal } from 'lucide-react'
 import { supabase } from '../lib/supabase'
 import { useAuth } from '../contexts/AuthContext'
 import { Button } from '../components/ui/button'
@@ -8,23 +8,24 @@ import { Input } from '../components/ui/input'
 import { Textarea } from '../components/ui/textarea'
 import { Label } from '../components/ui/label'
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select'
 import { Switch } from '../components/ui/switch'
-
-interface Question {
-  id?: string
-  question_text: string
-  question_type: 'text' | 'multiple_choice' | 'rating'
-  options: string[]
-  is_required: boolean
-  order_index: number
-}
-
-interface FormData {
+import { QuestionEditor } from '../components/FormBuilder/QuestionEditor'
+import { ScheduleSettings } from '../components/FormBuilder/ScheduleSettings'
+import { ResponseLimitSettings } from '../components/FormBuilder/ResponseLimitSettings'
+import { Question } from '../types/form'
+import { findLogicError, findSettingsError, removeLogicReferences } from '../lib/formLogic'
+import { getAnswerableQuestions } from '../lib/formPages'
+import { FormSchedule, findScheduleError } from '../lib/formSchedule'
+import { updateForm } from '../lib/forms'
+import { FormResponseLimit } from '../lib/respondent'
+
+interface FormData extends FormSchedule, FormResponseLimit {
   id: string
   title: string
   description: string
   is_active: boolean
+  archived_at?: string | null
+  deleted_at?: string | null
 }
 
 export const EditForm: React.FC = () => {
@@ -43,6 +44,9 @@ export const EditForm: React.FC = () => {
   const [saving, setSaving] = useState(false)
   const [error, setError] = useState('')
 
+  // Archived and trashed forms can be viewed but not changed
+  const isReadOnly = !!form.archived_at || !!form.deleted_at
+
   useEffect(() => {
     if (user && formId) {
       loadForm()
@@ -78,6 +82,7 @@ export const EditForm: React.FC = () => {
         .from('questions')
         .select('*')
         .eq('form_id', formId)
+        .is('deleted_at', null)
         .order('order_index')
 
       if (questionsError) {
@@ -96,46 +101,55 @@ export const EditForm: React.FC = () => {
 
   const addQuestion = () => {
     const newQuestion: Question = {
+      id: crypto.randomUUID(),
       question_text: '',
       question_type: 'text',
       options: [],
       is_required: false,
-      order_index: questions.length
+      order_index: questions.length,
+      logic: {},
+      settings: {}
     }
     setQuestions([...questions, newQuestion])
   }
 
-  const updateQuestion = (index: number, field: keyof Question, value: any) => {
-    const updatedQuestions = [...questions]
-    updatedQuestions[index] = { ...updatedQuestions[index], [field]: value }
-    setQuestions(updatedQuestions)
+  const addPageBreak = () => {
+    const pageBreak: Question = {
+      id: crypto.randomUUID(),
+      question_text: '',
+      question_type: 'page_break',
+      options: [],
+      is_required: false,
+      order_index: questions.length,
+      logic: {},
+      settings: {}
+    }
+    setQuestions([...questions, pageBreak])
   }
 
-  const removeQuestion = (index: number) => {
-    const updatedQuestions = questions.filter((_, i) => i !== index)
-    // Update order_index for remaining questions
-    updatedQuestions.forEach((q, i) => {
-      q.order_index = i
-    })
-    setQuestions(updatedQuestions)
+  const updateQuestion = (questionId: string, updates: Question) => {
+    setQuestions(questions.map(q => q.id === questionId ? updates : q))
   }
 
-  const addOption = (questionIndex: number) => {
-    const updatedQuestions = [...questions]
-    updatedQuestions[questionIndex].options.push('')
+  const removeQuestion = (questionId: string) => {
+    // Update order_index for remaining questions
+    const updatedQuestions = removeLogicReferences(
+      questions.filter(q => q.id !== questionId),
+      questionId
+    ).map((q, i) => ({ ...q, order_index: i }))
     setQuestions(updatedQuestions)
   }
 
-  const updateOption = (questionIndex: number, optionIndex: number, value: string) => {
+  const moveQuestion = (questionId: string, direction: 'up' | 'down') => {
     const updatedQuestions = [...questions]
-    updatedQuestions[questionIndex].options[optionIndex] = value
-    setQuestions(updatedQuestions)
-  }
+    const currentIndex = updatedQuestions.findIndex(q => q.id === questionId)
+    const newIndex = direction === 'up' ? currentIndex - 1 : currentIndex + 1
 
-  const removeOption = (questionIndex: number, optionIndex: number) => {
-    const updatedQuestions = [...questions]
-    updatedQuestions[questionIndex].options.splice(optionIndex, 1)
-    setQuestions(updatedQuestions)
+    if (currentIndex === -1 || newIndex < 0 || newIndex >= updatedQuestions.length) return
+
+    // Swap questions and update order indices
+    [updatedQuestions[currentIndex], updatedQuestions[newIndex]] = [updatedQuestions[newIndex], updatedQuestions[currentIndex]]
+    setQuestions(updatedQuestions.map((q, i) => ({ ...q, order_index: i })))
   }
 
   const saveForm = async () => {
@@ -149,59 +163,39 @@ export const EditForm: React.FC = () => {
         return
       }
 
-      if (questions.length === 0) {
+      const answerableQuestions = getAnswerableQuestions(questions)
+      if (answerableQuestions.length === 0) {
         setError('At least one question is required')
         return
       }
 
-      // Validate questions
-      for (let i = 0; i < questions.length; i++) {
-        const question = questions[i]
+      // Validate questions (page breaks only carry an optional title)
+      for (let i = 0; i < answerableQuestions.length; i++) {
+        const question = answerableQuestions[i]
         if (!question.question_text.trim()) {
           setError(`Question ${i + 1} text is required`)
           return
         }
-        if (question.question_type === 'multiple_choice' && question.options.length < 2) {
+        if (
+          (question.question_type === 'multiple_choice' || question.question_type === 'checkbox') &&
+          question.options.length < 2
+        ) {
           setError(`Question ${i + 1} must have at least 2 options`)
           return
         }
       }
 
-      // Update form
-      const { error: formError } = await supabase
-        .from('forms')
-        .update({
-          title: form.title.trim(),
-          description: form.description.trim(),
-          is_active: form.is_active
-        })
-        .eq('id', formId)
-
-      if (formError) throw formError
-
-      // Delete existing questions and insert new ones
-      const { error: deleteError } = await supabase
-        .from('questions')
-        .delete()
-        .eq('form_id', formId)
-
-      if (deleteError) throw deleteError
-
-      // Insert updated questions
-      const questionsToInsert = questions.map((question, index) => ({
-        form_id: formId,
-        question_text: question.question_text.trim(),
-        question_type: question.question_type,
-        options: question.options.filter(opt => opt.trim()),
-        is_required: question.is_required,
-        order_index: index
-      }))
-
-      const { error: questionsError } = await supabase
-        .from('questions')
-        .insert(questionsToInsert)
+      const logicError = findScheduleError(form) || findLogicError(questions) || findSettingsError(questions)
+      if (logicError) {
+        setError(logicError)
+        return
+      }
 
-      if (questionsError) throw questionsError
+      // Details and questions are saved together, so a failure changes nothing
+      await updateForm(formId as string, {
+        ...form,
+        questions: questions.map((question, index) => ({ ...question, order_index: index })),
+      })
 
       navigate('/forms')
     } catch (err: any) {
@@ -269,7 +263,7 @@ export const EditForm: React.FC = () => {
                 <Eye className="h-4 w-4 mr-2" />
                 Preview
               </Link>
-              <Button onClick={saveForm} disabled={saving}>
+              <Button onClick={saveForm} disabled={saving || isReadOnly}>
                 {saving ? (
                   <div className="flex items-center">
                     <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
@@ -292,6 +286,16 @@ export const EditForm: React.FC = () => {
           </div>
         )}
 
+        {isReadOnly && (
+          <div className="mb-6 p-4 bg-muted border rounded-lg text-muted-foreground">
+            This form is {form.deleted_at ? 'in the trash' : 'archived'} and cannot be edited.{' '}
+            <Link to={form.deleted_at ? '/forms?view=trash' : '/forms?view=archived'} className="underline hover:text-foreground">
+              Restore it
+            </Link>{' '}
+            to make changes.
+          </div>
+        )}
+
         {/* Form Details */}
         <Card className="mb-8">
           <CardHeader>
@@ -327,6 +331,16 @@ export const EditForm: React.FC = () => {
               />
               <Label htmlFor="is_active">Form is active (accepting responses)</Label>
             </div>
+
+            <ScheduleSettings
+              schedule={form}
+              onChange={(updates) => setForm({ ...form, ...updates })}
+            />
+
+            <ResponseLimitSettings
+              settings={form}
+              onChange={(updates) => setForm({ ...form, ...updates })}
+            />
           </CardContent>
         </Card>
 
@@ -335,96 +349,36 @@ export const EditForm: React.FC = () => {
           <CardHeader>
             <div className="flex items-center justify-between">
               <CardTitle>Questions</CardTitle>
-              <Button onClick={addQuestion} variant="outline" size="sm">
-                <Plus className="h-4 w-4 mr-2" />
-                Add Question
-              </Button>
+              <div className="flex items-center space-x-2">
+                <Button
+                  onClick={addPageBreak}
+                  variant="outline"
+                  size="sm"
+                  disabled={questions.length === 0}
+                >
+                  <SeparatorHorizontal className="h-4 w-4 mr-2" />
+                  Add Page Break
+                </Button>
+                <Button onClick={addQuestion} variant="outline" size="sm">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Question
+                </Button>
+              </div>
             </div>
           </CardHeader>
           <CardContent className="space-y-6">
             {questions.map((question, index) => (
-              <div key={index} className="border rounded-lg p-4 space-y-4">
-                <div className="flex items-center justify-between">
-                  <h4 className="font-medium">Question {index + 1}</h4>
-                  <Button
-                    onClick={() => removeQuestion(index)}
-                    variant="ghost"
-                    size="sm"
-                    className="text-destructive hover:text-destructive"
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
-                </div>
-
-                <div>
-                  <Label>Question Text *</Label>
-                  <Input
-                    value={question.question_text}
-                    onChange={(e) => updateQuestion(index, 'question_text', e.target.value)}
-                    placeholder="Enter your question"
-                  />
-                </div>
-
-                <div>
-                  <Label>Question Type</Label>
-                  <Select
-                    value={question.question_type}
-                    onValueChange={(value) => updateQuestion(index, 'question_type', value)}
-                  >
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="text">Text</SelectItem>
-                      <SelectItem value="multiple_choice">Multiple Choice</SelectItem>
-                      <SelectItem value="rating">Rating (1-5)</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-
-                {question.question_type === 'multiple_choice' && (
-                  <div>
-                    <div className="flex items-center justify-between mb-2">
-                      <Label>Options</Label>
-                      <Button
-                        onClick={() => addOption(index)}
-                        variant="outline"
-                        size="sm"
-                      >
-                        <Plus className="h-4 w-4 mr-1" />
-                        Add Option
-                      </Button>
-                    </div>
-                    <div className="space-y-2">
-                      {question.options.map((option, optionIndex) => (
-                        <div key={optionIndex} className="flex items-center space-x-2">
-                          <Input
-                            value={option}
-                            onChange={(e) => updateOption(index, optionIndex, e.target.value)}
-                            placeholder={`Option ${optionIndex + 1}`}
-                          />
-                          <Button
-                            onClick={() => removeOption(index, optionIndex)}
-                            variant="ghost"
-                            size="sm"
-                            className="text-destructive hover:text-destructive"
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
-                        </div>
-                      ))}
-                    </div>
-                  </div>
-                )}
-
-                <div className="flex items-center space-x-2">
-                  <Switch
-                    checked={question.is_required}
-                    onCheckedChange={(checked) => updateQuestion(index, 'is_required', checked)}
-                  />
-                  <Label>Required question</Label>
-                </div>
-              </div>
+              <QuestionEditor
+                key={question.id}
+                question={question}
+                questions={questions}
+                onUpdate={(updatedQuestion) => updateQuestion(question.id, updatedQuestion)}
+                onDelete={() => removeQuestion(question.id)}
+                onMoveUp={() => moveQuestion(question.id, 'up')}
+                onMoveDown={() => moveQuestion(question.id, 'down')}
+                canMoveUp={index > 0}
+                canMoveDown={index < questions.length - 1}
+              />
             ))}
 
             {questions.length === 0 && (
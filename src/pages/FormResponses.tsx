@@ -1,22 +1,86 @@
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useCallback } from 'react'
 import { useParams, Link, useNavigate } from 'react-router-dom'
-import { ArrowLeft, BarChart3, Download, Calendar, MessageSquare } from 'lucide-react'
+import { ArrowLeft, BarChart3, Download, Calendar, FileText, MessageSquare, ShieldAlert, ShieldCheck, Trash2 } from 'lucide-react'
 import { supabase } from '../lib/supabase'
 import { useAuth } from '../contexts/AuthContext'
+import { VersionComparison } from '../components/Analytics/VersionComparison'
+import { NpsSummary } from '../components/Analytics/NpsSummary'
+import { QuestionSummary } from '../components/Analytics/QuestionSummary'
+import { REPORT_DAYS, ResponseReport } from '../components/Analytics/ResponseReport'
+import { RatingDisplay } from '../components/RatingScale'
+import { VirtualList } from '../components/VirtualList'
+import { PaginationControls } from '../components/PaginationControls'
+import { ExportDialog } from '../components/ExportDialog'
+import { AnswerRevision, ResponseHistory } from '../components/ResponseHistory'
+import { Button } from '../components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../components/ui/dialog'
+import { FormVersion, Question, QuestionSettings, QuestionType } from '../types/form'
+import { isScaleQuestion } from '../lib/rating'
+import { parseNpsScore } from '../lib/nps'
+import { getAnswerableQuestions } from '../lib/formPages'
+import { computeRatingStats, formatRatingStats } from '../lib/analytics'
+import {
+  AnswerDistributionRow,
+  DailyResponseCount,
+  MonthlyAnswerDistributionRow,
+  TextAnswerRow,
+  VersionResponseCount,
+  getAnswerDistribution,
+  getDailyResponseCounts,
+  getLatestTextAnswers,
+  getMonthlyAnswerDistribution,
+  getVersionResponseCounts,
+  toRatedAnswers
+} from '../lib/aggregates'
+import { DEFAULT_PAGE_SIZE, EXPORT_PAGE_SIZE, ResponseCursor, afterCursor, toPage } from '../lib/pagination'
+import { ExportFormat, exportResponses } from '../lib/responseExport'
+import { deleteSpamResponses, setResponseSpam } from '../lib/spam'
 
 interface FormResponse {
   id: string
+  form_id: string
+  form_version_id: string | null
   submitted_at: string
+  // Set when the respondent last edited their answers
+  updated_at: string | null
+  is_complete: boolean
   ip_address: string | null
   user_agent: string | null
+  is_spam: boolean
+  spam_reason: string | null
   answers: {
+    id: string
+    question_id: string
     question_text: string
-    question_type: string
+    question_type: QuestionType
     answer_text: string
+    answer_options: string[] | null
+    options: string[]
+    settings: QuestionSettings
     order_index: number
+    is_removed: boolean
   }[]
+  revisions: AnswerRevision[]
 }
 
+type SummaryQuestion = Pick<Question, 'id' | 'question_text' | 'question_type' | 'options' | 'settings' | 'order_index'> & {
+  is_removed: boolean
+}
+
+type ResponsesTab = 'summary' | 'responses'
+
+const TABS: { value: ResponsesTab; label: string }[] = [
+  { value: 'summary', label: 'Summary' },
+  { value: 'responses', label: 'Responses' },
+]
+
 interface FormData {
   id: string
   title: string
@@ -31,12 +95,30 @@ export const FormResponses: React.FC = () => {
   
   const [form, setForm] = useState<FormData | null>(null)
   const [responses, setResponses] = useState<FormResponse[]>([])
+  const [nextCursor, setNextCursor] = useState<ResponseCursor | null>(null)
+  const [pageSize, setPageSize] = useState(DEFAULT_PAGE_SIZE)
+  const [pageLoading, setPageLoading] = useState(false)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [exportOpen, setExportOpen] = useState(false)
+  const [exporting, setExporting] = useState(false)
+  const [versions, setVersions] = useState<FormVersion[]>([])
+  // Every question of the form, including removed ones that still have answers
+  const [questions, setQuestions] = useState<Question[]>([])
+  const [distribution, setDistribution] = useState<AnswerDistributionRow[]>([])
+  const [versionCounts, setVersionCounts] = useState<VersionResponseCount[]>([])
+  const [npsCounts, setNpsCounts] = useState<MonthlyAnswerDistributionRow[]>([])
+  const [textAnswers, setTextAnswers] = useState<TextAnswerRow[]>([])
+  const [dailyCounts, setDailyCounts] = useState<DailyResponseCount[]>([])
+  const [activeTab, setActiveTab] = useState<ResponsesTab>('summary')
+  // 'all', 'unversioned' (submitted before versioning existed) or a version id
+  const [selectedVersion, setSelectedVersion] = useState('all')
+  // Responses flagged as spam are listed on their own, and left out everywhere else
+  const [showSpam, setShowSpam] = useState(false)
+  const [spamCount, setSpamCount] = useState(0)
+  const [spamDialogOpen, setSpamDialogOpen] = useState(false)
+  const [deletingSpam, setDeletingSpam] = useState(false)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState('')
-  const [stats, setStats] = useState({
-    totalResponses: 0,
-    avgRating: 0
-  })
 
   useEffect(() => {
     if (user && formId) {
@@ -66,71 +148,74 @@ export const FormResponses: React.FC = () => {
         return
       }
 
-      setForm(formData)
+      // Load the version history used to pin and compare responses
+      const { data: versionsData, error: versionsError } = await supabase
+        .from('form_versions')
+        .select('*')
+        .eq('form_id', formId)
+        .order('version_number')
+
+      if (versionsError) {
+        console.error('Error loading form versions:', versionsError)
+        setError('Failed to load form versions')
+        return
+      }
+
+      setVersions(versionsData || [])
+
+      // Load every question so unanswered and removed ones still get a summary
+      const { data: questionsData, error: questionsError } = await supabase
+        .from('questions')
+        .select('*')
+        .eq('form_id', formId)
+        .order('order_index')
+
+      if (questionsError) {
+        console.error('Error loading questions:', questionsError)
+        setError('Failed to load questions')
+        return
+      }
+
+      setQuestions(questionsData || [])
 
-      // Load responses with answers and questions
-      const { data: responsesData, error: responsesError } = await supabase
+      // Summaries are aggregated in the database, since only one page of responses is loaded
+      const [counts, answerDistribution, nps, texts, daily] = await Promise.all([
+        getVersionResponseCounts(formId as string),
+        getAnswerDistribution(formId),
+        getMonthlyAnswerDistribution('nps', formId),
+        getLatestTextAnswers(formId as string),
+        getDailyResponseCounts(REPORT_DAYS, formId)
+      ])
+
+      const aggregateError = counts.error || answerDistribution.error || nps.error || texts.error || daily.error
+      if (aggregateError) {
+        console.error('Error loading response summaries:', aggregateError)
+        setError('Failed to load response summaries')
+        return
+      }
+
+      const { count: flaggedCount, error: spamError } = await supabase
         .from('responses')
-        .select(`
-          id,
-          submitted_at,
-          ip_address,
-          user_agent,
-          answers(
-            answer_text,
-            questions(
-              question_text,
-              question_type,
-              order_index
-            )
-          )
-        `)
+        .select('id', { count: 'exact', head: true })
         .eq('form_id', formId)
-        .order('submitted_at', { ascending: false })
+        .eq('is_spam', true)
 
-      if (responsesError) {
-        console.error('Error loading responses:', responsesError)
+      if (spamError) {
+        console.error('Error counting spam responses:', spamError)
         setError('Failed to load responses')
         return
       }
 
-      // Transform the data
-      const transformedResponses: FormResponse[] = responsesData?.map(response => ({
-        id: response.id,
-        submitted_at: response.submitted_at,
-        ip_address: response.ip_address,
-        user_agent: response.user_agent,
-        answers: response.answers
-          .map((answer: any) => ({
-            question_text: answer.questions.question_text,
-            question_type: answer.questions.question_type,
-            answer_text: answer.answer_text,
-            order_index: answer.questions.order_index
-          }))
-          .sort((a: any, b: any) => a.order_index - b.order_index)
-      })) || []
-
-      setResponses(transformedResponses)
-
-      // Calculate stats
-      const totalResponses = transformedResponses.length
-      
-      // Calculate average rating from rating questions
-      const ratingAnswers = transformedResponses.flatMap(r => 
-        r.answers
-          .filter(answer => answer.question_type === 'rating')
-          .map(answer => parseInt(answer.answer_text))
-          .filter(rating => !isNaN(rating))
-      )
-      
-      const avgRating = ratingAnswers.length > 0 
-        ? ratingAnswers.reduce((sum, rating) => sum + rating, 0) / ratingAnswers.length
-        : 0
-
-      setStats({
-        totalResponses,
-        avgRating: Math.round(avgRating * 10) / 10
-      })
+      setSpamCount(flaggedCount ?? 0)
+      if (!flaggedCount) setShowSpam(false)
+      setVersionCounts(counts.data)
+      setDistribution(answerDistribution.data)
+      setNpsCounts(nps.data)
+      setTextAnswers(texts.data)
+      setDailyCounts(daily.data)
+
+      // Setting the form last starts loading the first page of responses
+      setForm(formData)
 
     } catch (err) {
       console.error('Error loading form and responses:', err)
@@ -140,38 +225,247 @@ export const FormResponses: React.FC = () => {
     }
   }
 
-  const exportResponses = () => {
-    if (responses.length === 0) return
-
-    // Create CSV content
-    const headers = ['Response ID', 'Submitted At', 'IP Address']
-    const questionHeaders = responses[0]?.answers.map(answer => answer.question_text) || []
-    const csvHeaders = [...headers, ...questionHeaders]
-
-    const csvRows = responses.map(response => {
-      const baseData = [
-        response.id,
-        new Date(response.submitted_at).toLocaleString(),
-        response.ip_address || 'N/A'
-      ]
-      const answerData = response.answers.map(answer => `"${answer.answer_text.replace(/"/g, '""')}"`)
-      return [...baseData, ...answerData]
-    })
-
-    const csvContent = [csvHeaders, ...csvRows]
-      .map(row => row.join(','))
-      .join('\n')
-
-    // Download CSV
-    const blob = new Blob([csvContent], { type: 'text/csv' })
-    const url = window.URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = `${form?.title || 'form'}-responses.csv`
-    document.body.appendChild(a)
-    a.click()
-    document.body.removeChild(a)
-    window.URL.revokeObjectURL(url)
+  // Loads responses with answers and questions, newest first, after `cursor`.
+  // Spam is listed across every version.
+  const fetchResponses = useCallback(async (cursor: ResponseCursor | null, limit: number, spam: boolean) => {
+    let query = supabase
+      .from('responses')
+      .select(`
+        id,
+        form_id,
+        form_version_id,
+        submitted_at,
+        updated_at,
+        is_complete,
+        ip_address,
+        user_agent,
+        is_spam,
+        spam_reason,
+        answers(
+          id,
+          answer_text,
+          answer_options,
+          question_id,
+          questions(
+            question_text,
+            question_type,
+            options,
+            settings,
+            order_index,
+            deleted_at
+          )
+        ),
+        answer_revisions(
+          id,
+          question_id,
+          answer_text,
+          answer_options,
+          revised_at
+        )
+      `)
+      .eq('form_id', formId)
+      .eq('is_spam', spam)
+
+    if (!spam && selectedVersion === 'unversioned') {
+      query = query.is('form_version_id', null)
+    } else if (!spam && selectedVersion !== 'all') {
+      query = query.eq('form_version_id', selectedVersion)
+    }
+    if (cursor) {
+      query = query.or(afterCursor(cursor))
+    }
+
+    const { data: responsesData, error: responsesError } = await query
+      .order('submitted_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit)
+
+    // Transform the data
+    const transformedResponses: FormResponse[] = responsesData?.map(response => ({
+      id: response.id,
+      form_id: response.form_id,
+      form_version_id: response.form_version_id,
+      submitted_at: response.submitted_at,
+      updated_at: response.updated_at,
+      is_complete: response.is_complete,
+      ip_address: response.ip_address,
+      user_agent: response.user_agent,
+      is_spam: response.is_spam,
+      spam_reason: response.spam_reason,
+      answers: response.answers
+        .map((answer: any) => ({
+          id: answer.id,
+          question_id: answer.question_id,
+          question_text: answer.questions.question_text,
+          question_type: answer.questions.question_type,
+          answer_text: answer.answer_text,
+          answer_options: answer.answer_options,
+          options: answer.questions.options || [],
+          settings: answer.questions.settings || {},
+          order_index: answer.questions.order_index,
+          is_removed: answer.questions.deleted_at !== null
+        }))
+        .sort((a: any, b: any) => a.order_index - b.order_index),
+      revisions: response.answer_revisions || []
+    })) || []
+
+    return { data: transformedResponses, error: responsesError }
+  }, [formId, selectedVersion])
+
+  const loadFirstPage = useCallback(async () => {
+    setPageLoading(true)
+    const { data, error: pageError } = await fetchResponses(null, pageSize + 1, showSpam)
+    if (pageError) {
+      console.error('Error loading responses:', pageError)
+      setError('Failed to load responses')
+    } else {
+      const page = toPage(data, pageSize)
+      setResponses(page.items)
+      setNextCursor(page.nextCursor)
+    }
+    setPageLoading(false)
+  }, [fetchResponses, pageSize, showSpam])
+
+  // Start over from the newest response whenever the filters or page size change
+  useEffect(() => {
+    if (form) {
+      loadFirstPage()
+    }
+  }, [form, loadFirstPage])
+
+  const loadMore = async () => {
+    if (!nextCursor) return
+    setLoadingMore(true)
+    const { data, error: pageError } = await fetchResponses(nextCursor, pageSize + 1, showSpam)
+    if (pageError) {
+      console.error('Error loading responses:', pageError)
+      setError('Failed to load responses')
+    } else {
+      const page = toPage(data, pageSize)
+      setResponses(current => [...current, ...page.items])
+      setNextCursor(page.nextCursor)
+    }
+    setLoadingMore(false)
+  }
+
+  // A large page of responses matching the version filter, for exports; spam is never exported
+  const fetchExportPage = async (cursor: ResponseCursor | null) => {
+    const { data, error: pageError } = await fetchResponses(cursor, EXPORT_PAGE_SIZE + 1, false)
+    if (pageError) throw pageError
+    return toPage(data.map(response => ({ ...response, form_title: form?.title })), EXPORT_PAGE_SIZE)
+  }
+
+  const matchesVersion = (versionId: string | null) => {
+    if (selectedVersion === 'all') return true
+    if (selectedVersion === 'unversioned') return versionId === null
+    return versionId === selectedVersion
+  }
+
+  const scopedDistribution = distribution.filter(row => matchesVersion(row.form_version_id))
+  const allResponsesCount = versionCounts.reduce((sum, count) => sum + count.response_count, 0)
+
+  const stats = {
+    totalResponses: versionCounts
+      .filter(count => matchesVersion(count.form_version_id))
+      .reduce((sum, count) => sum + count.response_count, 0),
+    avgRating: formatRatingStats(computeRatingStats(toRatedAnswers(scopedDistribution)))
+  }
+
+  // Score counts per month for every NPS question, in question order
+  const npsQuestions = questions
+    .filter(question => question.question_type === 'nps')
+    .map(question => ({
+      question_id: question.id,
+      question_text: question.question_text,
+      entries: npsCounts
+        .filter(row => row.question_id === question.id && matchesVersion(row.form_version_id))
+        .flatMap(row => {
+          const score = parseNpsScore(row.value)
+          return score === null ? [] : [{ score, submitted_at: row.month, count: row.answer_count }]
+        })
+    }))
+    .filter(question => question.entries.length > 0)
+
+  const rowsFor = (questionId: string) => scopedDistribution.filter(row => row.question_id === questionId)
+
+  // answers_total repeats on every row of a version, so take it once per version
+  const respondentsFor = (questionId: string) => {
+    const totals = new Map<string | null, number>()
+    rowsFor(questionId).forEach(row => totals.set(row.form_version_id, row.answers_total))
+    return Array.from(totals.values()).reduce((sum, total) => sum + total, 0)
+  }
+
+  const valuesFor = (questionId: string) =>
+    rowsFor(questionId)
+      .filter(row => row.value !== null)
+      .map(row => ({ value: row.value as string, count: row.answer_count }))
+
+  const textsFor = (questionId: string) =>
+    textAnswers
+      .filter(row => row.question_id === questionId && matchesVersion(row.form_version_id))
+      .map(row => row.answer_text)
+
+  // Live questions in form order, then removed questions that still have answers
+  const summaryQuestions: SummaryQuestion[] = [
+    ...getAnswerableQuestions(questions.filter(question => !question.deleted_at))
+      .map(question => ({ ...question, is_removed: false })),
+    ...questions
+      .filter(question => question.deleted_at && respondentsFor(question.id) > 0)
+      .map(question => ({ ...question, is_removed: true }))
+  ]
+
+  // Includes removed questions, which revisions can still point at
+  const questionText = (questionId: string) =>
+    questions.find(question => question.id === questionId)?.question_text || 'Removed question'
+
+  const versionLabel = (versionId: string | null) => {
+    const version = versions.find(v => v.id === versionId)
+    return version ? `v${version.version_number}` : ''
+  }
+
+  const reportScope = selectedVersion === 'all'
+    ? 'All versions'
+    : selectedVersion === 'unversioned'
+      ? 'Before versioning'
+      : `Version ${versionLabel(selectedVersion).slice(1)}`
+
+  const handleExport = async (format: ExportFormat) => {
+    try {
+      setExporting(true)
+      await exportResponses(fetchExportPage, format, `${form?.title || 'form'}-responses`, { includeIpAddress: true })
+      setExportOpen(false)
+    } catch (err) {
+      console.error('Error exporting responses:', err)
+      setError('Failed to export responses')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  // Flagging or clearing a response changes the summaries too, so everything is reloaded
+  const toggleSpam = async (response: FormResponse) => {
+    try {
+      await setResponseSpam(response.id, !response.is_spam)
+      await loadFormAndResponses()
+    } catch (err) {
+      console.error('Error updating spam flag:', err)
+      setError('Failed to update the response')
+    }
+  }
+
+  const handleDeleteSpam = async () => {
+    try {
+      setDeletingSpam(true)
+      await deleteSpamResponses(formId as string)
+      setSpamDialogOpen(false)
+      setShowSpam(false)
+      await loadFormAndResponses()
+    } catch (err) {
+      console.error('Error deleting spam responses:', err)
+      setError('Failed to delete spam responses')
+    } finally {
+      setDeletingSpam(false)
+    }
   }
 
   if (loading) {
@@ -207,7 +501,7 @@ export const FormResponses: React.FC = () => {
 
   return (
     <div className="min-h-screen bg-background">
-      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 print:hidden">
         {/* Header */}
         <div className="mb-8">
           <div className="flex items-center mb-4">
@@ -230,17 +524,61 @@ export const FormResponses: React.FC = () => {
               </p>
             </div>
             
-            <button
-              onClick={exportResponses}
-              disabled={responses.length === 0}
-              className="flex items-center bg-primary text-primary-foreground px-4 py-2 rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              <Download className="h-4 w-4 mr-2" />
-              Export CSV
-            </button>
+            <div className="flex items-center space-x-3">
+              {/* The print dialog's "Save as PDF" turns the report into a PDF */}
+              <button
+                onClick={() => window.print()}
+                disabled={stats.totalResponses === 0}
+                className="flex items-center border border-input bg-background text-foreground px-4 py-2 rounded-lg hover:bg-muted transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <FileText className="h-4 w-4 mr-2" />
+                Download report
+              </button>
+              <button
+                onClick={() => setExportOpen(true)}
+                disabled={stats.totalResponses === 0}
+                className="flex items-center bg-primary text-primary-foreground px-4 py-2 rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Export
+              </button>
+            </div>
           </div>
         </div>
 
+        <ExportDialog
+          open={exportOpen}
+          onOpenChange={setExportOpen}
+          count={stats.totalResponses}
+          exporting={exporting}
+          onExport={handleExport}
+        />
+
+        {/* Version Filter */}
+        {versions.length > 0 && (
+          <div className="flex items-center justify-end mb-6">
+            <label htmlFor="version-filter" className="text-sm text-muted-foreground mr-3">
+              Form version
+            </label>
+            <select
+              id="version-filter"
+              value={selectedVersion}
+              onChange={(e) => setSelectedVersion(e.target.value)}
+              className="border border-input rounded-lg px-3 py-2 bg-background text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+            >
+              <option value="all">All versions</option>
+              {versions.map(version => (
+                <option key={version.id} value={version.id}>
+                  v{version.version_number} · {new Date(version.created_at).toLocaleDateString()}
+                </option>
+              ))}
+              {versionCounts.some(count => count.form_version_id === null) && (
+                <option value="unversioned">Before versioning</option>
+              )}
+            </select>
+          </div>
+        )}
+
         {/* Stats Cards */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
           <div className="bg-card text-card-foreground p-6 rounded-lg border">
@@ -253,69 +591,71 @@ export const FormResponses: React.FC = () => {
             </div>
           </div>
           
-          {stats.avgRating > 0 && (
+          {stats.avgRating && (
             <div className="bg-card text-card-foreground p-6 rounded-lg border">
               <div className="flex items-center">
                 <MessageSquare className="h-8 w-8 text-primary mr-3" />
                 <div>
                   <p className="text-sm text-muted-foreground">Avg Rating</p>
-                  <p className="text-2xl font-bold">{stats.avgRating}/5</p>
+                  <p className="text-2xl font-bold">{stats.avgRating}</p>
                 </div>
               </div>
             </div>
           )}
         </div>
 
-        {/* Responses */}
-        {responses.length > 0 ? (
-          <div className="space-y-6">
-            <h2 className="text-xl font-semibold text-foreground">
-              All Responses ({responses.length})
-            </h2>
-            
-            {responses.map((response, index) => (
-              <div key={response.id} className="bg-card text-card-foreground p-6 rounded-lg border">
-                <div className="flex items-center justify-between mb-4">
-                  <h3 className="text-lg font-medium">Response #{index + 1}</h3>
-                  <div className="flex items-center text-sm text-muted-foreground">
-                    <Calendar className="h-4 w-4 mr-1" />
-                    {new Date(response.submitted_at).toLocaleString()}
-                  </div>
-                </div>
-                
-                <div className="space-y-4">
-                  {response.answers.map((answer, answerIndex) => (
-                    <div key={answerIndex} className="border-l-4 border-primary/20 pl-4">
-                      <p className="font-medium text-foreground mb-1">
-                        {answer.question_text}
-                      </p>
-                      <p className="text-muted-foreground">
-                        {answer.question_type === 'rating' ? (
-                          <span className="inline-flex items-center">
-                            {answer.answer_text}/5 
-                            <span className="ml-2">
-                              {'★'.repeat(parseInt(answer.answer_text))}
-                              {'☆'.repeat(5 - parseInt(answer.answer_text))}
-                            </span>
-                          </span>
-                        ) : (
-                          answer.answer_text
-                        )}
-                      </p>
-                    </div>
-                  ))}
-                </div>
-              </div>
-            ))}
-          </div>
-        ) : (
+        {/* Tabs */}
+        <div role="tablist" className="flex border-b mb-8">
+          {TABS.map(tab => (
+            <button
+              key={tab.value}
+              role="tab"
+              aria-selected={activeTab === tab.value}
+              onClick={() => setActiveTab(tab.value)}
+              className={`px-4 py-2 -mb-px border-b-2 text-sm font-medium transition-colors ${
+                activeTab === tab.value
+                  ? 'border-primary text-foreground'
+                  : 'border-transparent text-muted-foreground hover:text-foreground'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        <Dialog open={spamDialogOpen} onOpenChange={open => !open && setSpamDialogOpen(false)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Delete {spamCount} spam response{spamCount === 1 ? '' : 's'}?</DialogTitle>
+              <DialogDescription>
+                Every response flagged as spam and its answers will be deleted. This cannot be undone.
+              </DialogDescription>
+            </DialogHeader>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setSpamDialogOpen(false)} disabled={deletingSpam}>
+                Cancel
+              </Button>
+              <Button variant="destructive" onClick={handleDeleteSpam} disabled={deletingSpam} className="flex items-center">
+                <Trash2 className="h-4 w-4 mr-2" />
+                {deletingSpam ? 'Deleting...' : 'Delete spam'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        {stats.totalResponses === 0 && !(activeTab === 'responses' && spamCount > 0) ? (
           <div className="text-center py-12">
             <div className="bg-muted p-8 rounded-full w-32 h-32 mx-auto mb-8 flex items-center justify-center">
               <MessageSquare className="h-16 w-16 text-muted-foreground" />
             </div>
-            <h3 className="text-2xl font-bold text-foreground mb-4">No responses yet</h3>
+            <h3 className="text-2xl font-bold text-foreground mb-4">
+              {allResponsesCount === 0 ? 'No responses yet' : 'No responses for this version'}
+            </h3>
             <p className="text-muted-foreground mb-8 max-w-md mx-auto">
-              Share your form link to start collecting responses from your audience.
+              {allResponsesCount === 0
+                ? 'Share your form link to start collecting responses from your audience.'
+                : 'Pick another form version to see its responses.'
+              }
             </p>
             <Link
               to="/forms"
@@ -324,8 +664,174 @@ export const FormResponses: React.FC = () => {
               Back to Forms
             </Link>
           </div>
+        ) : activeTab === 'summary' ? (
+          <div className="space-y-6">
+            {/* Net Promoter Score */}
+            {npsQuestions.length > 0 && (
+              <div className="grid lg:grid-cols-2 gap-6">
+                {npsQuestions.map(question => (
+                  <NpsSummary key={question.question_id} title={question.question_text} entries={question.entries} />
+                ))}
+              </div>
+            )}
+
+            {/* Per-question Summaries */}
+            {summaryQuestions.map((question, index) => (
+              <QuestionSummary
+                key={question.id}
+                question={question}
+                number={index + 1}
+                values={valuesFor(question.id)}
+                respondents={respondentsFor(question.id)}
+                texts={textsFor(question.id)}
+                isRemoved={question.is_removed}
+              />
+            ))}
+
+            {/* Version Comparison */}
+            {selectedVersion === 'all' && versions.length > 1 && allResponsesCount > 0 && (
+              <VersionComparison versions={versions} distribution={distribution} responseCounts={versionCounts} />
+            )}
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-semibold text-foreground">
+                {showSpam
+                  ? `Spam (${spamCount})`
+                  : `${selectedVersion === 'all' ? 'All Responses' : 'Responses'} (${stats.totalResponses})`}
+              </h2>
+              {spamCount > 0 && (
+                <div className="flex items-center space-x-3">
+                  {showSpam && (
+                    <Button variant="destructive" size="sm" onClick={() => setSpamDialogOpen(true)} className="flex items-center">
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Delete all spam
+                    </Button>
+                  )}
+                  <Button variant="outline" size="sm" onClick={() => setShowSpam(!showSpam)} className="flex items-center">
+                    <ShieldAlert className="h-4 w-4 mr-2" />
+                    {showSpam ? 'Back to responses' : `Show spam (${spamCount})`}
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            <VirtualList
+              items={responses}
+              getKey={response => response.id}
+              renderItem={(response, index) => (
+                <div className="bg-card text-card-foreground p-6 rounded-lg border">
+                  <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-lg font-medium">
+                      Response #{index + 1}
+                      {versionLabel(response.form_version_id) && (
+                        <span className="ml-2 px-2 py-0.5 text-xs font-normal rounded-full bg-muted text-muted-foreground">
+                          {versionLabel(response.form_version_id)}
+                        </span>
+                      )}
+                    </h3>
+                    <div className="flex items-center space-x-4 text-sm text-muted-foreground">
+                      <span className="flex items-center">
+                        <Calendar className="h-4 w-4 mr-1" />
+                        {new Date(response.submitted_at).toLocaleString()}
+                      </span>
+                      {response.updated_at && (
+                        <span className="px-2 py-0.5 text-xs rounded-full bg-muted">
+                          Edited {new Date(response.updated_at).toLocaleString()}
+                        </span>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => toggleSpam(response)}
+                        className="flex items-center"
+                      >
+                        {response.is_spam ? (
+                          <>
+                            <ShieldCheck className="h-4 w-4 mr-1" />
+                            Not spam
+                          </>
+                        ) : (
+                          <>
+                            <ShieldAlert className="h-4 w-4 mr-1" />
+                            Mark as spam
+                          </>
+                        )}
+                      </Button>
+                    </div>
+                  </div>
+
+                  {response.is_spam && response.spam_reason && (
+                    <p className="mb-4 text-sm text-destructive">Flagged as spam: {response.spam_reason}</p>
+                  )}
+
+                  <div className="space-y-4">
+                    {response.answers.map((answer, answerIndex) => (
+                      <div key={answerIndex} className="border-l-4 border-primary/20 pl-4">
+                        <p className="font-medium text-foreground mb-1">
+                          {answer.question_text}
+                          {answer.is_removed && (
+                            <span className="ml-2 px-2 py-0.5 text-xs font-normal rounded-full bg-muted text-muted-foreground">
+                              Removed from form
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-muted-foreground">
+                          {answer.question_type === 'checkbox' && answer.answer_options ? (
+                            <span className="flex flex-wrap gap-2">
+                              {answer.answer_options.map(option => (
+                                <span key={option} className="px-2 py-0.5 text-sm rounded-full bg-primary/10 text-primary">
+                                  {option}
+                                </span>
+                              ))}
+                            </span>
+                          ) : isScaleQuestion(answer) ? (
+                            <RatingDisplay question={answer} value={answer.answer_text} />
+                          ) : (
+                            answer.answer_text
+                          )}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+
+                  {response.revisions.length > 0 && (
+                    <ResponseHistory revisions={response.revisions} questionText={questionText} />
+                  )}
+                </div>
+              )}
+            />
+
+            <PaginationControls
+              loaded={responses.length}
+              total={showSpam ? spamCount : stats.totalResponses}
+              pageSize={pageSize}
+              onPageSizeChange={setPageSize}
+              hasMore={nextCursor !== null}
+              loadingMore={loadingMore || pageLoading}
+              onLoadMore={loadMore}
+            />
+          </div>
         )}
       </div>
+
+      <ResponseReport
+        title={form?.title || ''}
+        description={form?.description || ''}
+        scope={reportScope}
+        totalResponses={stats.totalResponses}
+        avgRating={stats.avgRating}
+        daily={dailyCounts}
+        npsQuestions={npsQuestions}
+        questions={summaryQuestions.map(question => ({
+          question,
+          values: valuesFor(question.id),
+          respondents: respondentsFor(question.id),
+          texts: textsFor(question.id),
+          isRemoved: question.is_removed
+        }))}
+      />
     </div>
   )
 }
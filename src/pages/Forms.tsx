@@ -1,15 +1,54 @@
 import React from 'react'
 import { useState, useEffect } from 'react'
-import { Link } from 'react-router-dom'
-import { Plus, FileText, ExternalLink, MoreVertical, Copy, Trash2 } from 'lucide-react'
+import { Link, useNavigate, useSearchParams } from 'react-router-dom'
+import { Plus, FileText, ExternalLink, MoreVertical, Copy, Trash2, Upload, LayoutTemplate, Archive, ArchiveRestore, RotateCcw, CalendarClock } from 'lucide-react'
 import { supabase } from '../lib/supabase'
+import {
+  TRASH_RETENTION_DAYS,
+  archiveForm,
+  daysUntilPurge,
+  deleteFormPermanently,
+  duplicateForm,
+  loadFormData,
+  moveFormToTrash,
+  purgeExpiredForms,
+  restoreFormFromTrash,
+  unarchiveForm,
+} from '../lib/forms'
+import { saveAsTemplate } from '../lib/templates'
+import { formatScheduleDate, getScheduleState } from '../lib/formSchedule'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '../components/ui/dropdown-menu'
+import { DeleteFormDialog } from '../components/DeleteFormDialog'
 import { useAuth } from '../contexts/AuthContext'
 
+type FormView = 'active' | 'archived' | 'trash'
+
+const FORM_VIEWS: { value: FormView; label: string }[] = [
+  { value: 'active', label: 'Forms' },
+  { value: 'archived', label: 'Archived' },
+  { value: 'trash', label: 'Trash' },
+]
+
 export const Forms: React.FC = () => {
   const { user } = useAuth()
+  const navigate = useNavigate()
+  const [searchParams, setSearchParams] = useSearchParams()
   const [forms, setForms] = useState<any[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState('')
+  const [notice, setNotice] = useState('')
+  const [formToDelete, setFormToDelete] = useState<{ id: string; title: string; responses: number } | null>(null)
+  const [deleting, setDeleting] = useState(false)
+
+  const view = FORM_VIEWS.find(option => option.value === searchParams.get('view'))?.value || 'active'
+  const visibleForms = forms.filter(form =>
+    view === 'trash' ? form.deleted_at : !form.deleted_at && !!form.archived_at === (view === 'archived')
+  )
 
   useEffect(() => {
     if (user) {
@@ -22,14 +61,21 @@ export const Forms: React.FC = () => {
       setLoading(true)
       setError('')
 
-      // Load forms with response counts
+      // Forms that have been in the trash too long are deleted before listing
+      await purgeExpiredForms().catch(err => console.error('Error purging deleted forms:', err))
+
+      // Load forms with response counts. Spam is left out of the card count, as
+      // it is when the database checks the response limit, but deleting a form
+      // removes it too, so the total is kept for the delete confirmation.
       const { data: formsData, error: formsError } = await supabase
         .from('forms')
         .select(`
           *,
-          responses(count)
+          responses(count),
+          responses_total:responses(count)
         `)
         .eq('user_id', user?.id)
+        .eq('responses.is_spam', false)
         .order('created_at', { ascending: false })
 
       if (formsError) {
@@ -40,8 +86,10 @@ export const Forms: React.FC = () => {
       const transformedForms = formsData?.map(form => ({
         ...form,
         responses: form.responses?.[0]?.count || 0,
+        responses_total: form.responses_total?.[0]?.count || 0,
+        schedule: getScheduleState(form, form.responses?.[0]?.count || 0),
         url: `${window.location.origin}/form/${form.id}`,
-        status: form.is_active ? 'active' : 'draft'
+        status: form.deleted_at ? 'trash' : form.archived_at ? 'archived' : form.is_active ? 'active' : 'draft'
       })) || []
 
       setForms(transformedForms)
@@ -53,6 +101,62 @@ export const Forms: React.FC = () => {
     }
   }
 
+  const duplicate = async (formId: string) => {
+    setError('')
+    setNotice('')
+    try {
+      const copy = await duplicateForm(formId)
+      navigate(`/forms/${copy.id}/edit`)
+    } catch (err) {
+      setError('Failed to duplicate form')
+      console.error('Error duplicating form:', err)
+    }
+  }
+
+  const saveTemplate = async (formId: string) => {
+    if (!user) return
+    setError('')
+    setNotice('')
+    try {
+      const formData = await loadFormData(formId)
+      await saveAsTemplate(user.id, formData)
+      setNotice(`Saved "${formData.title}" as a template. Pick it when you create a new form.`)
+    } catch (err) {
+      setError('Failed to save template')
+      console.error('Error saving template:', err)
+    }
+  }
+
+  // Runs an archive, trash or restore action, then reloads the list
+  const changeForm = async (action: () => Promise<void>, success: string, failure: string) => {
+    setError('')
+    setNotice('')
+    try {
+      await action()
+      setNotice(success)
+      await loadForms()
+    } catch (err) {
+      setError(failure)
+      console.error(`${failure}:`, err)
+    }
+  }
+
+  const confirmDelete = async () => {
+    if (!formToDelete) return
+    setDeleting(true)
+    try {
+      await deleteFormPermanently(formToDelete.id)
+      setForms(prev => prev.filter(form => form.id !== formToDelete.id))
+      setNotice(`Deleted "${formToDelete.title}" permanently.`)
+      setFormToDelete(null)
+    } catch (err) {
+      setError('Failed to delete form')
+      console.error('Error deleting form:', err)
+    } finally {
+      setDeleting(false)
+    }
+  }
+
   const copyToClipboard = (url: string) => {
     navigator.clipboard.writeText(url)
     // TODO: Add toast notification
@@ -80,13 +184,22 @@ export const Forms: React.FC = () => {
               Create and manage your feedback forms
             </p>
           </div>
-          <Link
-            to="/forms/new"
-            className="bg-gradient-to-r from-blue-600 to-purple-600 text-white px-8 py-3 rounded-xl hover:from-blue-700 hover:to-purple-700 transition-all duration-300 inline-flex items-center transform hover:scale-105 shadow-lg hover:shadow-xl"
-          >
-            <Plus className="h-4 w-4 mr-2" />
-            Create New Form
-          </Link>
+          <div className="flex items-center space-x-3">
+            <Link
+              to="/forms/import"
+              className="border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 px-6 py-3 rounded-xl hover:bg-gray-100 dark:hover:bg-gray-800 transition-all duration-300 inline-flex items-center"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </Link>
+            <Link
+              to="/forms/new"
+              className="bg-gradient-to-r from-blue-600 to-purple-600 text-white px-8 py-3 rounded-xl hover:from-blue-700 hover:to-purple-700 transition-all duration-300 inline-flex items-center transform hover:scale-105 shadow-lg hover:shadow-xl"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Create New Form
+            </Link>
+          </div>
         </div>
 
         {error && (
@@ -95,10 +208,42 @@ export const Forms: React.FC = () => {
           </div>
         )}
 
+        {notice && (
+          <div className="mb-6 p-4 bg-green-50 dark:bg-green-900/30 border border-green-200 dark:border-green-800 text-green-700 dark:text-green-400 rounded-lg">
+            {notice}
+          </div>
+        )}
+
+        {/* Views */}
+        <div className="flex items-center space-x-6 mb-6 border-b border-gray-200 dark:border-gray-700">
+          {FORM_VIEWS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => {
+                setNotice('')
+                setSearchParams(option.value === 'active' ? {} : { view: option.value }, { replace: true })
+              }}
+              className={`pb-3 -mb-px text-sm font-medium border-b-2 transition-colors ${
+                view === option.value
+                  ? 'border-blue-600 text-blue-600 dark:text-blue-400'
+                  : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {view === 'trash' && visibleForms.length > 0 && (
+          <p className="mb-6 text-sm text-gray-500 dark:text-gray-400">
+            Forms in the trash are deleted permanently, with their responses, after {TRASH_RETENTION_DAYS} days.
+          </p>
+        )}
+
         {/* Forms Grid */}
-        {forms.length > 0 ? (
+        {visibleForms.length > 0 ? (
           <div className="grid gap-6 animate-slide-up">
-            {forms.map((form) => (
+            {visibleForms.map((form) => (
               <div
                 key={form.id}
                 className="bg-white dark:bg-gray-800 rounded-xl shadow-lg hover:shadow-2xl p-6 border border-gray-200 dark:border-gray-700 transition-all duration-300 transform hover:-translate-y-1"
@@ -113,17 +258,39 @@ export const Forms: React.FC = () => {
                         className={`px-2 py-1 text-xs font-medium rounded-full ${
                           form.status === 'active'
                             ? 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-400'
-                            : 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-400'
+                            : form.status === 'trash'
+                              ? 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-400'
+                              : form.status === 'archived'
+                                ? 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+                                : 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-400'
                         }`}
                       >
-                        {form.status}
+                        {form.status === 'trash' ? `deleted in ${daysUntilPurge(form.deleted_at)} days` : form.status}
                       </span>
                     </div>
                     <p className="text-gray-600 dark:text-gray-300 mb-4">{form.description}</p>
                     
                     <div className="flex items-center space-x-6 text-sm text-gray-500 dark:text-gray-400">
-                      <span>{form.responses} responses</span>
+                      <span>
+                        {form.max_responses ? `${form.responses} of ${form.max_responses}` : form.responses} responses
+                      </span>
                       <span>Created {new Date(form.created_at).toLocaleDateString()}</span>
+                      {(form.schedule !== 'open' || form.closes_at) && (
+                        <span
+                          className={`inline-flex items-center ${
+                            form.schedule === 'open' ? '' : 'text-orange-600 dark:text-orange-400'
+                          }`}
+                        >
+                          <CalendarClock className="h-4 w-4 mr-1" />
+                          {form.schedule === 'scheduled'
+                            ? `Opens ${formatScheduleDate(form.opens_at)}`
+                            : form.schedule === 'closed'
+                              ? `Closed ${formatScheduleDate(form.closes_at)}`
+                              : form.schedule === 'full'
+                                ? 'Response limit reached'
+                                : `Closes ${formatScheduleDate(form.closes_at)}`}
+                        </span>
+                      )}
                     </div>
 
                     <div className="mt-4 flex items-center space-x-2">
@@ -153,26 +320,104 @@ export const Forms: React.FC = () => {
                   </div>
 
                   <div className="flex items-center space-x-2 ml-4">
-                    <Link
-                      to={`/forms/${form.id}/responses`}
-                      className="bg-gradient-to-r from-blue-50 to-blue-100 dark:from-blue-900/30 dark:to-blue-800/30 text-blue-600 dark:text-blue-400 px-4 py-2 rounded-lg hover:from-blue-100 hover:to-blue-200 dark:hover:from-blue-800/40 dark:hover:to-blue-700/40 transition-all duration-300 text-sm font-medium"
-                    >
-                      View Responses
-                    </Link>
-                    <Link
-                      to={`/forms/${form.id}/edit`}
-                      className="bg-gray-50 dark:bg-gray-700 text-gray-600 dark:text-gray-300 px-4 py-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors text-sm font-medium"
-                    >
-                      Edit
-                    </Link>
-                    <button className="p-2 text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 transition-colors rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700">
-                      <MoreVertical className="h-4 w-4" />
-                    </button>
+                    {view === 'trash' ? (
+                      <>
+                        <button
+                          onClick={() => changeForm(
+                            () => restoreFormFromTrash(form.id),
+                            `Restored "${form.title}".`,
+                            'Failed to restore form'
+                          )}
+                          className="bg-gray-50 dark:bg-gray-700 text-gray-600 dark:text-gray-300 px-4 py-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors text-sm font-medium inline-flex items-center"
+                        >
+                          <RotateCcw className="h-4 w-4 mr-2" />
+                          Restore
+                        </button>
+                        <button
+                          onClick={() => setFormToDelete({ id: form.id, title: form.title, responses: form.responses_total })}
+                          className="bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-400 px-4 py-2 rounded-lg hover:bg-red-100 dark:hover:bg-red-900/50 transition-colors text-sm font-medium inline-flex items-center"
+                        >
+                          <Trash2 className="h-4 w-4 mr-2" />
+                          Delete permanently
+                        </button>
+                      </>
+                    ) : (
+                      <>
+                        <Link
+                          to={`/forms/${form.id}/responses`}
+                          className="bg-gradient-to-r from-blue-50 to-blue-100 dark:from-blue-900/30 dark:to-blue-800/30 text-blue-600 dark:text-blue-400 px-4 py-2 rounded-lg hover:from-blue-100 hover:to-blue-200 dark:hover:from-blue-800/40 dark:hover:to-blue-700/40 transition-all duration-300 text-sm font-medium"
+                        >
+                          View Responses
+                        </Link>
+                        {view === 'active' && (
+                          <Link
+                            to={`/forms/${form.id}/edit`}
+                            className="bg-gray-50 dark:bg-gray-700 text-gray-600 dark:text-gray-300 px-4 py-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors text-sm font-medium"
+                          >
+                            Edit
+                          </Link>
+                        )}
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <button
+                              className="p-2 text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 transition-colors rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700"
+                              title="More actions"
+                            >
+                              <MoreVertical className="h-4 w-4" />
+                            </button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuItem onSelect={() => duplicate(form.id)}>
+                              <Copy className="h-4 w-4 mr-2" />
+                              Duplicate
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onSelect={() => saveTemplate(form.id)}>
+                              <LayoutTemplate className="h-4 w-4 mr-2" />
+                              Save as template
+                            </DropdownMenuItem>
+                            {view === 'active' ? (
+                              <DropdownMenuItem onSelect={() => changeForm(
+                                () => archiveForm(form.id),
+                                `Archived "${form.title}". It no longer accepts responses.`,
+                                'Failed to archive form'
+                              )}>
+                                <Archive className="h-4 w-4 mr-2" />
+                                Archive
+                              </DropdownMenuItem>
+                            ) : (
+                              <DropdownMenuItem onSelect={() => changeForm(
+                                () => unarchiveForm(form.id),
+                                `Restored "${form.title}" from the archive.`,
+                                'Failed to restore form'
+                              )}>
+                                <ArchiveRestore className="h-4 w-4 mr-2" />
+                                Unarchive
+                              </DropdownMenuItem>
+                            )}
+                            <DropdownMenuItem
+                              onSelect={() => changeForm(
+                                () => moveFormToTrash(form.id),
+                                `Moved "${form.title}" to the trash.`,
+                                'Failed to move form to the trash'
+                              )}
+                              className="text-red-600 dark:text-red-400"
+                            >
+                              <Trash2 className="h-4 w-4 mr-2" />
+                              Move to trash
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      </>
+                    )}
                   </div>
                 </div>
               </div>
             ))}
           </div>
+        ) : view !== 'active' ? (
+          <div className="text-center py-12 text-gray-500 dark:text-gray-400">
+            {view === 'trash' ? 'The trash is empty.' : 'No archived forms.'}
+          </div>
         ) : (
           <div className="text-center py-12">
             <div className="bg-gray-100 dark:bg-gray-700 rounded-full p-8 w-32 h-32 mx-auto mb-8 flex items-center justify-center animate-bounce-subtle">
@@ -192,6 +437,13 @@ export const Forms: React.FC = () => {
           </div>
         )}
       </div>
+
+      <DeleteFormDialog
+        form={formToDelete}
+        deleting={deleting}
+        onCancel={() => setFormToDelete(null)}
+        onConfirm={confirmDelete}
+      />
     </div>
   )
 }
\ No newline at end of file
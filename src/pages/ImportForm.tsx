@@ -0,0 +1,312 @@
+import React, { useMemo, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { AlertCircle, ArrowLeft, CheckCircle, FileJson, FileSpreadsheet, Upload } from 'lucide-react'
+import { Button } from '../components/ui/button'
+import { Label } from '../components/ui/label'
+import { Textarea } from '../components/ui/textarea'
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
+import { useAuth } from '../contexts/AuthContext'
+import { parseCsv } from '../lib/csv'
+import { createForm } from '../lib/forms'
+import { getAnswerableQuestions } from '../lib/formPages'
+import {
+  SUBMITTED_AT_COLUMN,
+  guessColumnMapping,
+  importResponses,
+  mapResponseRows,
+  parseFormDefinition
+} from '../lib/formImport'
+
+// Rows with errors listed in the preview; the count covers the rest
+const MAX_LISTED_ERRORS = 50
+
+const SELECT_CLASS = 'w-full border border-input rounded-lg px-3 py-2 bg-background text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-ring'
+
+export const ImportForm: React.FC = () => {
+  const navigate = useNavigate()
+  const { user } = useAuth()
+  const [definitionText, setDefinitionText] = useState('')
+  const [csvName, setCsvName] = useState('')
+  const [csvRows, setCsvRows] = useState<string[][]>([])
+  const [mapping, setMapping] = useState<string[]>([])
+  const [skipInvalid, setSkipInvalid] = useState(false)
+  const [importing, setImporting] = useState(false)
+  const [error, setError] = useState('')
+
+  const definition = useMemo(
+    () => (definitionText.trim() ? parseFormDefinition(definitionText) : null),
+    [definitionText]
+  )
+  const questions = useMemo(() => definition?.form?.questions || [], [definition])
+  const answerableQuestions = getAnswerableQuestions(questions)
+
+  const [headers, ...dataRows] = csvRows
+  const importRows = useMemo(
+    () => (questions.length > 0 && dataRows.length > 0 ? mapResponseRows(dataRows, mapping, questions) : []),
+    // dataRows is derived from csvRows
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [csvRows, mapping, questions]
+  )
+  const validResponses = importRows.flatMap(row => (row.response ? [row.response] : []))
+  const invalidRows = importRows.filter(row => row.errors.length > 0)
+
+  const readDefinitionFile = async (file: File | undefined) => {
+    if (!file) return
+    setDefinitionText(await file.text())
+  }
+
+  const readCsvFile = async (file: File | undefined) => {
+    if (!file) return
+    const rows = parseCsv(await file.text())
+    setCsvName(file.name)
+    setCsvRows(rows)
+    setMapping(guessColumnMapping(rows[0] || [], questions))
+  }
+
+  const updateMapping = (column: number, target: string) => {
+    setMapping(mapping.map((current, index) => (index === column ? target : current)))
+  }
+
+  const canImport = !!definition?.form && !importing && (invalidRows.length === 0 || skipInvalid)
+
+  const runImport = async () => {
+    if (!user || !definition?.form) return
+
+    setImporting(true)
+    setError('')
+
+    let formId: string
+    try {
+      formId = (await createForm(definition.form)).id
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create form')
+      setImporting(false)
+      return
+    }
+
+    try {
+      await importResponses(formId, validResponses)
+      navigate(validResponses.length > 0 ? `/forms/${formId}/responses` : '/forms')
+    } catch (err) {
+      console.error('Error importing responses:', err)
+      setError(`The form was created, but none of its responses were imported: ${err instanceof Error ? err.message : 'unknown error'}`)
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="flex items-center space-x-4 mb-8">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => navigate('/forms')}
+            className="flex items-center"
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Forms
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Import Form</h1>
+            <p className="text-muted-foreground">
+              Create a form from a JSON definition and bring in its past responses from a CSV file
+            </p>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-destructive/10 border border-destructive/20 text-destructive rounded-lg">
+            {error}
+          </div>
+        )}
+
+        <div className="space-y-6">
+          {/* Form Definition */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <FileJson className="h-5 w-5 mr-2" />
+                1. Form definition
+              </CardTitle>
+              <p className="text-sm text-muted-foreground">
+                A JSON object with a <code>title</code>, an optional <code>description</code> and a{' '}
+                <code>questions</code> array, each with <code>question_text</code>, <code>question_type</code>,{' '}
+                <code>options</code>, <code>is_required</code> and <code>settings</code>.
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="definition-file">Upload a .json file</Label>
+                <input
+                  id="definition-file"
+                  type="file"
+                  accept=".json,application/json"
+                  onChange={(e) => readDefinitionFile(e.target.files?.[0])}
+                  className="block text-sm text-muted-foreground"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="definition-text">Or paste it here</Label>
+                <Textarea
+                  id="definition-text"
+                  value={definitionText}
+                  onChange={(e) => setDefinitionText(e.target.value)}
+                  placeholder='{ "title": "Customer feedback", "questions": [ ... ] }'
+                  className="min-h-[160px] font-mono text-sm"
+                />
+              </div>
+
+              {definition && definition.errors.length > 0 && (
+                <div className="p-4 bg-destructive/10 border border-destructive/20 rounded-lg text-sm text-destructive space-y-1">
+                  {definition.errors.map(message => (
+                    <p key={message} className="flex items-start">
+                      <AlertCircle className="h-4 w-4 mr-2 mt-0.5 shrink-0" />
+                      {message}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              {definition?.form && (
+                <div className="p-4 border rounded-lg space-y-3">
+                  <div>
+                    <p className="font-semibold text-foreground">{definition.form.title}</p>
+                    {definition.form.description && (
+                      <p className="text-sm text-muted-foreground">{definition.form.description}</p>
+                    )}
+                  </div>
+                  <ol className="space-y-1 text-sm">
+                    {answerableQuestions.map((question, index) => (
+                      <li key={question.id} className="text-foreground">
+                        {index + 1}. {question.question_text}
+                        <span className="ml-2 text-muted-foreground">
+                          {question.question_type.replace('_', ' ')}
+                          {question.is_required ? ' · required' : ''}
+                        </span>
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Responses */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <FileSpreadsheet className="h-5 w-5 mr-2" />
+                2. Responses (optional)
+              </CardTitle>
+              <p className="text-sm text-muted-foreground">
+                A CSV file with a header row and one response per row. Separate checkbox options with semicolons.
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="space-y-2">
+                <Label htmlFor="responses-file">Upload a .csv file</Label>
+                <input
+                  id="responses-file"
+                  type="file"
+                  accept=".csv,text/csv"
+                  disabled={!definition?.form}
+                  onChange={(e) => readCsvFile(e.target.files?.[0])}
+                  className="block text-sm text-muted-foreground disabled:opacity-50"
+                />
+                {!definition?.form && (
+                  <p className="text-xs text-muted-foreground">Add a valid form definition first</p>
+                )}
+              </div>
+
+              {headers && definition?.form && (
+                <>
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium text-foreground">
+                      Map the columns of {csvName}
+                    </p>
+                    <div className="border rounded-lg divide-y">
+                      {headers.map((header, column) => (
+                        <div key={column} className="grid grid-cols-3 gap-4 items-center p-3">
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium text-foreground truncate" title={header}>{header || `Column ${column + 1}`}</p>
+                            <p className="text-xs text-muted-foreground truncate">{dataRows[0]?.[column]}</p>
+                          </div>
+                          <div className="col-span-2">
+                            <select
+                              aria-label={`Column ${header}`}
+                              value={mapping[column] || ''}
+                              onChange={(e) => updateMapping(column, e.target.value)}
+                              className={SELECT_CLASS}
+                            >
+                              <option value="">Ignore this column</option>
+                              <option value={SUBMITTED_AT_COLUMN}>Submission time</option>
+                              {answerableQuestions.map((question, index) => (
+                                <option key={question.id} value={question.id}>
+                                  {index + 1}. {question.question_text}
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
+                  {/* Preview */}
+                  <div className="space-y-3">
+                    <p className="flex items-center text-sm text-foreground">
+                      <CheckCircle className="h-4 w-4 mr-2 text-green-600" />
+                      {validResponses.length} of {importRows.length} rows are ready to import
+                    </p>
+
+                    {invalidRows.length > 0 && (
+                      <>
+                        <div className="max-h-72 overflow-y-auto border border-destructive/20 rounded-lg divide-y text-sm">
+                          {invalidRows.slice(0, MAX_LISTED_ERRORS).map(row => (
+                            <div key={row.line} className="p-3">
+                              <p className="font-medium text-destructive">Line {row.line}</p>
+                              {row.errors.map(message => (
+                                <p key={message} className="text-muted-foreground">{message}</p>
+                              ))}
+                            </div>
+                          ))}
+                          {invalidRows.length > MAX_LISTED_ERRORS && (
+                            <p className="p-3 text-muted-foreground">
+                              And {invalidRows.length - MAX_LISTED_ERRORS} more rows with errors
+                            </p>
+                          )}
+                        </div>
+                        <label className="flex items-center space-x-2 text-sm text-foreground">
+                          <input
+                            type="checkbox"
+                            checked={skipInvalid}
+                            onChange={(e) => setSkipInvalid(e.target.checked)}
+                          />
+                          <span>Skip the {invalidRows.length} rows with errors</span>
+                        </label>
+                      </>
+                    )}
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="flex justify-end">
+            <Button onClick={runImport} disabled={!canImport} className="flex items-center">
+              <Upload className="h-4 w-4 mr-2" />
+              {importing
+                ? 'Importing...'
+                : validResponses.length > 0
+                  ? `Import form and ${validResponses.length} responses`
+                  : 'Import form'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,5 +1,5 @@
 import React, { useState } from 'react'
-import { Link, useNavigate } from 'react-router-dom'
+import { Link, useNavigate, useSearchParams } from 'react-router-dom'
 import { MessageSquare, Mail, Lock, Eye, EyeOff } from 'lucide-react'
 import { useAuth } from '../contexts/AuthContext'
 import { Button } from '../components/ui/button'
@@ -16,6 +16,11 @@ export const Login: React.FC = () => {
   
   const { signIn } = useAuth()
   const navigate = useNavigate()
+  const [searchParams] = useSearchParams()
+  // Pages that need a signed in visitor, like forms limited to one response per
+  // user, send them here and get them back afterwards. Only paths in the app count.
+  const redirect = searchParams.get('redirect')
+  const destination = redirect?.startsWith('/') && !redirect.startsWith('//') ? redirect : '/dashboard'
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -33,7 +38,7 @@ export const Login: React.FC = () => {
           setError(error.message)
         }
       } else {
-        navigate('/dashboard')
+        navigate(destination)
       }
     } catch (err) {
       setError('An unexpected error occurred')
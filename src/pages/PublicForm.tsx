@@ -1,24 +1,71 @@
-import React, { useState, useEffect } from 'react'
-import { useParams, useNavigate } from 'react-router-dom'
-import { MessageSquare, Send, CheckCircle } from 'lucide-react'
+import React, { useState, useEffect, useRef, useCallback } from 'react'
+import { useParams, useNavigate, Link } from 'react-router-dom'
+import { MessageSquare, Send, CheckCircle, ArrowLeft, ArrowRight, CalendarClock, Mail, UserCheck, Copy, Pencil, Link2Off } from 'lucide-react'
 import { Button } from '../components/ui/button'
 import { Input } from '../components/ui/input'
 import { Textarea } from '../components/ui/textarea'
 import { Label } from '../components/ui/label'
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
+import { RatingInput } from '../components/RatingScale'
 import { supabase } from '../lib/supabase'
-import { FormData, Question } from '../types/form'
+import { AnswerValue, FormData, Question } from '../types/form'
+import {
+  describeSelectionLimits,
+  getMissingRequiredQuestions,
+  getVisibleQuestions,
+  isAnswered,
+  validateAnswers,
+} from '../lib/formLogic'
+import { getAnswerableQuestions, splitIntoPages } from '../lib/formPages'
+import { isScaleQuestion } from '../lib/rating'
+import { ScheduleState, formAcceptsResponses, formatScheduleDate, getScheduleState } from '../lib/formSchedule'
+import { getClientFingerprint } from '../lib/spam'
+import {
+  OwnResponse,
+  answersFromResponse,
+  editResponseUrl,
+  getRespondentToken,
+  loadOwnResponse,
+  loadResponseForEdit,
+  sendVerificationLink,
+} from '../lib/respondent'
+import { useAuth } from '../contexts/AuthContext'
 
 export const PublicForm: React.FC = () => {
-  const { formId } = useParams<{ formId: string }>()
+  const { formId, editToken: linkToken } = useParams<{ formId: string; editToken?: string }>()
   const navigate = useNavigate()
+  const { user, loading: authLoading } = useAuth()
   const [form, setForm] = useState<FormData | null>(null)
   const [questions, setQuestions] = useState<Question[]>([])
-  const [answers, setAnswers] = useState<Record<string, string>>({})
+  const [answers, setAnswers] = useState<Record<string, AnswerValue>>({})
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
+  const [currentPage, setCurrentPage] = useState(0)
   const [loading, setLoading] = useState(true)
   const [submitting, setSubmitting] = useState(false)
   const [submitted, setSubmitted] = useState(false)
   const [error, setError] = useState('')
+  const [availability, setAvailability] = useState<ScheduleState>('open')
+  // Left empty by people; bots that fill every field give themselves away
+  const [honeypot, setHoneypot] = useState('')
+  // When the form was shown, so the database can flag implausibly fast submissions
+  const startedAt = useRef(Date.now())
+  // The respondent's earlier response, on forms that take one per person
+  const [ownResponse, setOwnResponse] = useState<OwnResponse | null>(null)
+  const [checkingResponse, setCheckingResponse] = useState(false)
+  const [editingResponse, setEditingResponse] = useState(false)
+  // The secret of the respondent's private edit link, when the form allows edits
+  const [editToken, setEditToken] = useState<string | null>(null)
+  const [editLinkInvalid, setEditLinkInvalid] = useState(false)
+  const [linkCopied, setLinkCopied] = useState(false)
+  const [verificationEmail, setVerificationEmail] = useState('')
+  const [verificationSent, setVerificationSent] = useState(false)
+  const [sendingVerification, setSendingVerification] = useState(false)
+
+  const responseLimit = form?.response_limit ?? 'none'
+  // An edit link stands in for signing in or verifying an email
+  const needsSignIn = responseLimit === 'user' && !user && !editToken
+  const needsVerifiedEmail = responseLimit === 'email' && !user?.email_confirmed_at && !editToken
+  const respondentToken = () => (responseLimit === 'browser' && formId ? getRespondentToken(formId) : null)
 
   useEffect(() => {
     if (formId) {
@@ -39,6 +86,8 @@ export const PublicForm: React.FC = () => {
         .select('*')
         .eq('id', formId)
         .eq('is_active', true)
+        .is('archived_at', null)
+        .is('deleted_at', null)
         .single()
 
       if (formError) {
@@ -58,6 +107,7 @@ export const PublicForm: React.FC = () => {
         .from('questions')
         .select('*')
         .eq('form_id', formId)
+        .is('deleted_at', null)
         .order('order_index')
 
       if (questionsError) {
@@ -67,8 +117,15 @@ export const PublicForm: React.FC = () => {
       }
 
       console.log('Questions loaded:', questionsData)
+
+      // The schedule can be read from the form; only the database knows whether the cap is reached
+      const scheduleState = getScheduleState(formData, 0)
+      const accepting = scheduleState === 'open' ? await formAcceptsResponses(formData.id) : false
+
       setForm(formData)
       setQuestions(questionsData || [])
+      setAvailability(scheduleState === 'open' && !accepting ? 'full' : scheduleState)
+      startedAt.current = Date.now()
     } catch (err) {
       console.error('Unexpected error loading form:', err)
       setError('An unexpected error occurred')
@@ -77,39 +134,186 @@ export const PublicForm: React.FC = () => {
     }
   }
 
-  const handleAnswerChange = (questionId: string, value: string) => {
+  // Runs again once the respondent signs in or verifies their email
+  const checkOwnResponse = useCallback(async () => {
+    if (!form?.id || !form.response_limit || form.response_limit === 'none' || linkToken) return
+    try {
+      setCheckingResponse(true)
+      const token = form.response_limit === 'browser' ? getRespondentToken(form.id) : null
+      setOwnResponse(await loadOwnResponse(form.id, token))
+    } catch (err) {
+      // The database still turns away a second response
+      console.error('Error checking for an earlier response:', err)
+    } finally {
+      setCheckingResponse(false)
+    }
+  }, [form?.id, form?.response_limit, linkToken])
+
+  useEffect(() => {
+    checkOwnResponse()
+  }, [checkOwnResponse, user?.id])
+
+  // A private edit link opens the response behind it with its answers filled in
+  useEffect(() => {
+    if (!form?.id || !linkToken) return
+
+    const openEditLink = async () => {
+      try {
+        setCheckingResponse(true)
+        const response = await loadResponseForEdit(form.id as string, linkToken)
+        if (!response) {
+          setEditLinkInvalid(true)
+          return
+        }
+        setOwnResponse(response)
+        setAnswers(answersFromResponse(response))
+        setEditToken(linkToken)
+        setEditingResponse(true)
+        setSubmitted(false)
+      } catch (err) {
+        console.error('Error opening edit link:', err)
+        setEditLinkInvalid(true)
+      } finally {
+        setCheckingResponse(false)
+      }
+    }
+
+    openEditLink()
+  }, [form?.id, linkToken])
+
+  const startEditing = () => {
+    if (!ownResponse) return
+    setAnswers(answersFromResponse(ownResponse))
+    setEditingResponse(true)
+  }
+
+  const copyEditLink = async () => {
+    if (!editToken || !formId) return
+    await navigator.clipboard.writeText(editResponseUrl(formId, editToken))
+    setLinkCopied(true)
+  }
+
+  const handleSendVerification = async (e: React.FormEvent) => {
+    e.preventDefault()
+    try {
+      setSendingVerification(true)
+      setError('')
+      await sendVerificationLink(verificationEmail.trim())
+      setVerificationSent(true)
+    } catch (err) {
+      console.error('Error sending verification link:', err)
+      setError(err instanceof Error ? err.message : 'Failed to send the verification link')
+    } finally {
+      setSendingVerification(false)
+    }
+  }
+
+  const handleAnswerChange = (questionId: string, value: AnswerValue) => {
     console.log('Answer changed:', { questionId, value })
     setAnswers(prev => ({
       ...prev,
       [questionId]: value
     }))
+    setFieldErrors(prev => {
+      const rest = { ...prev }
+      delete rest[questionId]
+      return rest
+    })
   }
 
-  const validateForm = () => {
-    const requiredQuestions = questions.filter(q => q.is_required)
-    const missingAnswers = requiredQuestions.filter(q => {
-      const answer = answers[q.id]
-      // Check if answer exists and is not empty
-      if (!answer) return true
-      // For text questions, check if trimmed value is not empty
-      if (q.question_type === 'text' && !answer.trim()) return true
-      // For other question types (rating, multiple_choice), just check if value exists
-      return false
+  const toggleOption = (question: Question, option: string) => {
+    const current = answers[question.id]
+    const selected = Array.isArray(current) ? current : []
+    const next = selected.includes(option)
+      ? selected.filter(o => o !== option)
+      : [...selected, option]
+    // Keep selections in the order the options are listed
+    handleAnswerChange(question.id, question.options.filter(o => next.includes(o)))
+  }
+
+  const textAnswer = (questionId: string) => {
+    const value = answers[questionId]
+    return typeof value === 'string' ? value : ''
+  }
+
+  // Conditional logic decides which questions the respondent currently sees,
+  // and page breaks split those into the pages of the wizard
+  const visibleQuestions = getVisibleQuestions(questions, answers)
+  const numberedQuestions = getAnswerableQuestions(visibleQuestions)
+  const pages = splitIntoPages(visibleQuestions)
+  // Answers can hide later pages, so keep the current page within range
+  const pageIndex = Math.max(0, Math.min(currentPage, pages.length - 1))
+  const page = pages[pageIndex]
+  const isLastPage = pageIndex >= pages.length - 1
+
+  const validateQuestions = (scope: Question[]) => {
+    // Hidden questions never block submission, even when required
+    const scopeIds = new Set(scope.map(q => q.id))
+    const missingAnswers = getMissingRequiredQuestions(questions, answers)
+      .filter(q => scopeIds.has(q.id))
+    const scopedErrors = Object.fromEntries(
+      Object.entries(validateAnswers(questions, answers)).filter(([questionId]) => scopeIds.has(questionId))
+    )
+    setFieldErrors(scopedErrors)
+
+    const questionNumbers = (ids: string[]) => ids.map(id => {
+      const index = numberedQuestions.findIndex(question => question.id === id)
+      return index + 1
     })
     
     if (missingAnswers.length > 0) {
-      const missingQuestionNumbers = missingAnswers.map(q => {
-        const index = questions.findIndex(question => question.id === q.id)
-        return index + 1
-      })
+      const missingQuestionNumbers = questionNumbers(missingAnswers.map(q => q.id))
       setError(`Please answer all required questions. Missing: Question ${missingQuestionNumbers.join(', ')}`)
       return false
     }
 
+    if (Object.keys(scopedErrors).length > 0) {
+      setError(`Please fix the highlighted answers: Question ${questionNumbers(Object.keys(scopedErrors)).join(', ')}`)
+      return false
+    }
+
     setError('') // Clear any previous errors
     return true
   }
 
+  const validateForm = () => validateQuestions(visibleQuestions)
+
+  const goToPage = (index: number) => {
+    setCurrentPage(index)
+    window.scrollTo({ top: 0, behavior: 'smooth' })
+  }
+
+  const nextPage = () => {
+    if (page && !validateQuestions(page.questions)) return
+    goToPage(pageIndex + 1)
+  }
+
+  const previousPage = () => {
+    setError('')
+    goToPage(pageIndex - 1)
+  }
+
+  // The server checks every answer again and reports problems as a json object
+  // of messages keyed by question id. Shows them like the form's own checks,
+  // returning false when the details hold no such messages.
+  const showServerErrors = (details: string | null | undefined) => {
+    let serverErrors: Record<string, string>
+    try {
+      serverErrors = JSON.parse(details || '')
+    } catch {
+      return false
+    }
+
+    const ids = numberedQuestions.map(question => question.id).filter(id => serverErrors[id])
+    if (ids.length === 0) return false
+
+    setFieldErrors(Object.fromEntries(ids.map(id => [id, serverErrors[id]])))
+    setError(`Please fix the highlighted answers: Question ${ids.map(id => numberedQuestions.findIndex(q => q.id === id) + 1).join(', ')}`)
+    const errorPage = pages.findIndex(candidate => candidate.questions.some(question => question.id === ids[0]))
+    if (errorPage !== -1 && errorPage !== pageIndex) goToPage(errorPage)
+    return true
+  }
+
   const submitForm = async () => {
     console.log('Form submission started')
     console.log('Current answers:', answers)
@@ -122,59 +326,46 @@ export const PublicForm: React.FC = () => {
     try {
       setSubmitting(true)
       setError('')
-      console.log('Creating response record...')
-
-      // Create response record
-      const { data: response, error: responseError } = await supabase
-        .from('responses')
-        .insert({
-          form_id: formId,
-          ip_address: null, // Could be populated server-side
-          user_agent: navigator.userAgent
-        })
-        .select()
-        .single()
 
-      if (responseError) {
-        console.error('Response creation error:', responseError)
-        throw responseError
-      }
+      // Answers for visible questions that have a value. Checkbox answers keep
+      // every selection in answer_options plus a readable answer_text.
+      const answersToSubmit = numberedQuestions
+        .filter(question => isAnswered(answers[question.id]))
+        .map(question => {
+          const value = answers[question.id]
+          return Array.isArray(value)
+            ? { question_id: question.id, answer_text: value.join(', '), answer_options: value }
+            : { question_id: question.id, answer_text: value.trim(), answer_options: null }
+        })
 
-      console.log('Response created:', response)
-
-      // Create answer records - improved filtering
-      const answersToInsert = Object.entries(answers)
-        .filter(([questionId, value]) => {
-          // Only include answers that have actual values
-          if (!value) return false
-          // For text answers, check if trimmed value is not empty
-          const question = questions.find(q => q.id === questionId)
-          if (question?.question_type === 'text') {
-            return value.trim().length > 0
-          }
-          // For rating and multiple choice, any non-empty value is valid
-          return true
+      console.log('Answers to submit:', answersToSubmit)
+
+      // The response and its answers are written together, or not at all
+      const { data: submission, error: submitError } = await supabase
+        .rpc('submit_response', {
+          p_form_id: formId,
+          p_answers: answersToSubmit,
+          // Partial when optional questions shown to the respondent were skipped
+          p_is_complete: numberedQuestions.every(question => isAnswered(answers[question.id])),
+          p_user_agent: navigator.userAgent,
+          // Rate limiting and spam checks; the client address is read by the database
+          p_fingerprint: await getClientFingerprint(),
+          p_honeypot: honeypot,
+          p_elapsed_ms: Date.now() - startedAt.current,
+          p_respondent_token: respondentToken(),
+          p_edit_token: editToken,
         })
-        .map(([questionId, answerText]) => ({
-          response_id: response.id,
-          question_id: questionId,
-          answer_text: typeof answerText === 'string' ? answerText.trim() : answerText.toString()
-        }))
-
-      console.log('Answers to insert:', answersToInsert)
-
-      if (answersToInsert.length > 0) {
-        const { error: answersError } = await supabase
-          .from('answers')
-          .insert(answersToInsert)
-
-        if (answersError) {
-          console.error('Answers creation error:', answersError)
-          throw answersError
-        }
+
+      if (submitError) {
+        console.error('Response submission error:', submitError)
+        if (showServerErrors(submitError.details)) return
+        throw submitError
       }
 
       console.log('Form submitted successfully')
+      // Every submission issues a new edit link; earlier links stop working
+      setEditToken(submission?.edit_token ?? null)
+      setLinkCopied(false)
       setSubmitted(true)
     } catch (err: any) {
       console.error('Form submission error:', err)
@@ -182,8 +373,14 @@ export const PublicForm: React.FC = () => {
       
       // Provide more specific error messages
       if (err.message) {
-        if (err.message.includes('violates row-level security')) {
-          errorMessage = 'Unable to submit form. Please check if the form is still active.'
+        if (err.message.includes('not accepting responses')) {
+          errorMessage = 'This form is no longer accepting responses.'
+        } else if (err.message.includes('edit link is no longer valid')) {
+          errorMessage = 'This edit link is no longer valid. Use the link from your latest submission.'
+        } else if (err.message.includes('already responded')) {
+          errorMessage = 'You have already responded to this form.'
+        } else if (err.message.includes('Too many submissions')) {
+          errorMessage = 'You have submitted this form several times in a short while. Please wait a few minutes and try again.'
         } else if (err.message.includes('duplicate key')) {
           errorMessage = 'This response has already been submitted.'
         } else if (err.message.includes('foreign key')) {
@@ -199,7 +396,7 @@ export const PublicForm: React.FC = () => {
     }
   }
 
-  if (loading) {
+  if (loading || authLoading || checkingResponse) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
         <div className="text-center">
@@ -227,6 +424,50 @@ export const PublicForm: React.FC = () => {
     )
   }
 
+  // A full form can still take changes to a response it already counts
+  if (form && editLinkInvalid) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center max-w-md mx-auto px-4">
+          <div className="bg-muted p-8 rounded-full w-32 h-32 mx-auto mb-8 flex items-center justify-center">
+            <Link2Off className="h-16 w-16 text-muted-foreground" />
+          </div>
+          <h1 className="text-2xl font-bold text-foreground mb-2">This edit link is no longer valid</h1>
+          <p className="text-muted-foreground mb-8">
+            Each submission replaces the previous link, and the form may no longer allow changes.
+            Use the link from your latest submission of "{form.title}".
+          </p>
+          <Button onClick={() => navigate('/')} variant="outline">
+            Go to Homepage
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  if (form && availability !== 'open' && !(availability === 'full' && ownResponse?.can_edit)) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center max-w-md mx-auto px-4">
+          <div className="bg-muted p-8 rounded-full w-32 h-32 mx-auto mb-8 flex items-center justify-center">
+            <CalendarClock className="h-16 w-16 text-muted-foreground" />
+          </div>
+          <h1 className="text-2xl font-bold text-foreground mb-2">{form.title}</h1>
+          <p className="text-muted-foreground mb-8">
+            {availability === 'scheduled' && form.opens_at
+              ? `This form opens on ${formatScheduleDate(form.opens_at)}. Please come back then.`
+              : availability === 'full'
+                ? 'This form has received all the responses it needs and is now closed. Thank you for your interest.'
+                : `This form is closed${form.closes_at ? ` since ${formatScheduleDate(form.closes_at)}` : ''} and no longer accepts responses.`}
+          </p>
+          <Button onClick={() => navigate('/')} variant="outline">
+            Go to Homepage
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
   if (submitted) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -236,8 +477,30 @@ export const PublicForm: React.FC = () => {
           </div>
           <h1 className="text-2xl font-bold text-foreground mb-4">Thank You!</h1>
           <p className="text-muted-foreground mb-8">
-            Your feedback has been submitted successfully. We appreciate your time and input.
+            {editingResponse
+              ? 'Your response has been updated.'
+              : 'Your feedback has been submitted successfully. We appreciate your time and input.'}
           </p>
+          {editToken && formId && (
+            <div className="mb-8 p-4 border rounded-lg text-left space-y-3">
+              <p className="text-sm text-muted-foreground">
+                Keep this private link to change your answers later. Anyone with the link can edit your response.
+              </p>
+              <div className="flex space-x-2">
+                <Input readOnly value={editResponseUrl(formId, editToken)} onFocus={(e) => e.target.select()} />
+                <Button variant="outline" onClick={copyEditLink} className="flex items-center">
+                  <Copy className="h-4 w-4 mr-2" />
+                  {linkCopied ? 'Copied' : 'Copy'}
+                </Button>
+              </div>
+              <Button asChild variant="link" className="px-0">
+                <Link to={`/form/${formId}/response/${editToken}`}>
+                  <Pencil className="h-4 w-4 mr-2" />
+                  Edit your answers
+                </Link>
+              </Button>
+            </div>
+          )}
           <Button onClick={() => navigate('/')} variant="outline">
             Go to Homepage
           </Button>
@@ -246,6 +509,83 @@ export const PublicForm: React.FC = () => {
     )
   }
 
+  if (form && (needsSignIn || needsVerifiedEmail)) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center max-w-md mx-auto px-4">
+          <div className="bg-muted p-8 rounded-full w-32 h-32 mx-auto mb-8 flex items-center justify-center">
+            {needsSignIn
+              ? <UserCheck className="h-16 w-16 text-muted-foreground" />
+              : <Mail className="h-16 w-16 text-muted-foreground" />}
+          </div>
+          <h1 className="text-2xl font-bold text-foreground mb-2">{form.title}</h1>
+          {needsSignIn ? (
+            <>
+              <p className="text-muted-foreground mb-8">
+                This form takes one response per person. Sign in to your account to respond.
+              </p>
+              <Button asChild>
+                <Link to={`/login?redirect=${encodeURIComponent(`/form/${formId}`)}`}>Sign in</Link>
+              </Button>
+            </>
+          ) : verificationSent ? (
+            <p className="text-muted-foreground">
+              We sent a link to {verificationEmail.trim()}. Open it to verify your email address and return to this form.
+            </p>
+          ) : (
+            <form onSubmit={handleSendVerification} className="space-y-4">
+              <p className="text-muted-foreground">
+                This form takes one response per email address. Verify your email to respond.
+              </p>
+              {error && <p className="text-sm text-destructive">{error}</p>}
+              <div className="space-y-2 text-left">
+                <Label htmlFor="verification-email">Email address</Label>
+                <Input
+                  id="verification-email"
+                  type="email"
+                  value={verificationEmail}
+                  onChange={(e) => setVerificationEmail(e.target.value)}
+                  placeholder="you@example.com"
+                  required
+                />
+              </div>
+              <Button type="submit" disabled={sendingVerification} className="w-full">
+                {sendingVerification ? 'Sending...' : 'Send verification link'}
+              </Button>
+            </form>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  if (form && ownResponse && !editingResponse) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center max-w-md mx-auto px-4">
+          <div className="bg-green-100 dark:bg-green-900/30 p-8 rounded-full w-32 h-32 mx-auto mb-8 flex items-center justify-center">
+            <CheckCircle className="h-16 w-16 text-green-600 dark:text-green-400" />
+          </div>
+          <h1 className="text-2xl font-bold text-foreground mb-2">You have already responded</h1>
+          <p className="text-muted-foreground mb-8">
+            You responded to "{form.title}" on {formatScheduleDate(ownResponse.submitted_at)}.
+            {ownResponse.can_edit
+              ? ' You can still change your answers.'
+              : ' This form takes one response per person.'}
+          </p>
+          <div className="flex justify-center space-x-3">
+            {ownResponse.can_edit && (
+              <Button onClick={startEditing}>Edit your response</Button>
+            )}
+            <Button onClick={() => navigate('/')} variant="outline">
+              Go to Homepage
+            </Button>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
   return (
     <div className="min-h-screen bg-background py-8">
       <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -269,16 +609,47 @@ export const PublicForm: React.FC = () => {
             )}
           </CardHeader>
           <CardContent className="space-y-6">
+            <div aria-hidden="true" className="absolute -left-[9999px] h-px w-px overflow-hidden">
+              <Label htmlFor="website">Website</Label>
+              <Input
+                id="website"
+                name="website"
+                value={honeypot}
+                onChange={(e) => setHoneypot(e.target.value)}
+                tabIndex={-1}
+                autoComplete="off"
+              />
+            </div>
+
+            {pages.length > 1 && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between text-sm text-muted-foreground">
+                  <span>Page {pageIndex + 1} of {pages.length}</span>
+                  <span>{Math.round(((pageIndex + 1) / pages.length) * 100)}%</span>
+                </div>
+                <div className="bg-muted rounded-full h-2 overflow-hidden">
+                  <div
+                    className="bg-primary h-full rounded-full transition-all duration-500 ease-out"
+                    style={{ width: `${((pageIndex + 1) / pages.length) * 100}%` }}
+                  />
+                </div>
+              </div>
+            )}
+
+            {page?.title && (
+              <h2 className="text-xl font-semibold text-foreground">{page.title}</h2>
+            )}
+
             {error && (
               <div className="bg-destructive/10 border border-destructive/20 text-destructive px-4 py-3 rounded-lg">
                 {error}
               </div>
             )}
 
-            {questions.map((question, index) => (
+            {(page?.questions || []).map((question) => (
               <div key={question.id} className="space-y-3">
                 <Label className="text-base font-medium">
-                  {index + 1}. {question.question_text}
+                  {numberedQuestions.indexOf(question) + 1}. {question.question_text}
                   {question.is_required && (
                     <span className="text-destructive ml-1">*</span>
                   )}
@@ -286,7 +657,7 @@ export const PublicForm: React.FC = () => {
 
                 {question.question_type === 'text' && (
                   <Textarea
-                    value={answers[question.id] || ''}
+                    value={textAnswer(question.id)}
                     onChange={(e) => handleAnswerChange(question.id, e.target.value)}
                     placeholder="Your answer..."
                     className="min-h-[100px]"
@@ -317,49 +688,85 @@ export const PublicForm: React.FC = () => {
                   </div>
                 )}
 
-                {question.question_type === 'rating' && (
-                  <div className="flex space-x-2">
-                    {[1, 2, 3, 4, 5].map((rating) => (
-                      <button
-                        key={rating}
-                        type="button"
-                        onClick={() => handleAnswerChange(question.id, rating.toString())}
-                        className={`h-12 w-12 rounded-lg border-2 text-sm font-medium transition-colors ${
-                          answers[question.id] === rating.toString()
-                            ? 'border-primary bg-primary text-white'
-                            : 'border-input bg-background hover:border-primary hover:bg-primary/10'
-                        }`}
-                      >
-                        {rating}
-                      </button>
+                {question.question_type === 'checkbox' && (
+                  <div className="space-y-2">
+                    <p className="text-sm text-muted-foreground">{describeSelectionLimits(question)}</p>
+                    {question.options.map((option, optionIndex) => (
+                      <div key={optionIndex} className="flex items-center space-x-3">
+                        <input
+                          type="checkbox"
+                          id={`${question.id}-${optionIndex}`}
+                          value={option}
+                          checked={Array.isArray(answers[question.id]) && answers[question.id].includes(option)}
+                          onChange={() => toggleOption(question, option)}
+                          className="h-4 w-4 rounded text-primary focus:ring-primary border-gray-300"
+                        />
+                        <label
+                          htmlFor={`${question.id}-${optionIndex}`}
+                          className="text-sm font-medium text-foreground cursor-pointer"
+                        >
+                          {option}
+                        </label>
+                      </div>
                     ))}
-                    <div className="flex items-center ml-4 text-sm text-muted-foreground">
-                      <span>1 = Poor, 5 = Excellent</span>
-                    </div>
                   </div>
                 )}
+
+                {isScaleQuestion(question) && (
+                  <RatingInput
+                    question={question}
+                    value={textAnswer(question.id)}
+                    onChange={(value) => handleAnswerChange(question.id, value)}
+                  />
+                )}
+
+                {fieldErrors[question.id] && (
+                  <p className="text-sm text-destructive">{fieldErrors[question.id]}</p>
+                )}
               </div>
             ))}
 
-            <div className="pt-6 border-t space-y-4">
-              <Button
-                onClick={submitForm}
-                disabled={submitting}
-                className="w-full"
-                size="lg"
-              >
-                {submitting ? (
-                  <div className="flex items-center">
-                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                    Submitting...
-                  </div>
-                ) : (
-                  <div className="flex items-center">
-                    <Send className="h-4 w-4 mr-2" />
-                    Submit Feedback
-                  </div>
-                )}
-              </Button>
+            <div className="pt-6 border-t flex items-center space-x-4">
+              {pageIndex > 0 && (
+                <Button
+                  onClick={previousPage}
+                  disabled={submitting}
+                  variant="outline"
+                  size="lg"
+                >
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Back
+                </Button>
+              )}
+              {!isLastPage ? (
+                <Button
+                  onClick={nextPage}
+                  className="flex-1"
+                  size="lg"
+                >
+                  Next
+                  <ArrowRight className="h-4 w-4 ml-2" />
+                </Button>
+              ) : (
+                <Button
+                  onClick={submitForm}
+                  disabled={submitting}
+                  className="flex-1"
+                  size="lg"
+                >
+                  {submitting ? (
+                    <div className="flex items-center">
+                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                      Submitting...
+                    </div>
+                  ) : (
+                    <div className="flex items-center">
+                      <Send className="h-4 w-4 mr-2" />
+                      {editingResponse ? 'Update Response' : 'Submit Feedback'}
+                    </div>
+                  )}
+                </Button>
+              )}
             </div>
           </CardContent>
         </Card>
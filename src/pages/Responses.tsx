@@ -1,22 +1,55 @@
 import React from 'react'
-import { useState, useEffect } from 'react'
-import { BarChart3, Download, Search } from 'lucide-react'
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { useSearchParams } from 'react-router-dom'
+import { BarChart3, Download, Search, X } from 'lucide-react'
 import { supabase } from '../lib/supabase'
 import { useAuth } from '../contexts/AuthContext'
+import { computeRatingStats, formatRatingStats } from '../lib/analytics'
+import { getAnswerDistribution, getDailyResponseCounts, getFormResponseCounts, toRatedAnswers } from '../lib/aggregates'
+import { DEFAULT_PAGE_SIZE, EXPORT_PAGE_SIZE, ResponseCursor, afterCursor, toPage } from '../lib/pagination'
+import { VirtualList } from '../components/VirtualList'
+import { PaginationControls } from '../components/PaginationControls'
+import { ExportDialog } from '../components/ExportDialog'
+import { Question } from '../types/form'
+import { ExportAnswer, ExportFormat, ExportResponse, exportResponses } from '../lib/responseExport'
+import { getAnswerableQuestions } from '../lib/formPages'
+import { isScaleQuestion } from '../lib/rating'
+import {
+  COMPLETION_STATUSES,
+  EMPTY_FILTERS,
+  ResponseFilters,
+  hasActiveFilters,
+  parseResponseFilters,
+  toSearchArgs,
+  toSearchParams
+} from '../lib/responseFilters'
+
+const parseNumberInput = (value: string) => (value.trim() === '' ? null : Number(value))
+
+const FILTER_INPUT_CLASS = 'border border-gray-300 dark:border-gray-600 rounded-lg px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white'
 
 export const Responses: React.FC = () => {
   const { user } = useAuth()
-  const [responses, setResponses] = useState<any[]>([])
+  const [responses, setResponses] = useState<ExportResponse[]>([])
+  const [nextCursor, setNextCursor] = useState<ResponseCursor | null>(null)
+  const [pageSize, setPageSize] = useState(DEFAULT_PAGE_SIZE)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [exportOpen, setExportOpen] = useState(false)
+  const [exporting, setExporting] = useState(false)
+  const [matchingCount, setMatchingCount] = useState<number | null>(null)
   const [forms, setForms] = useState<any[]>([])
-  const [selectedForm, setSelectedForm] = useState<string>('all')
-  const [searchTerm, setSearchTerm] = useState('')
+  // Answerable questions of the filtered form, for the question filter
+  const [formQuestions, setFormQuestions] = useState<Question[]>([])
+  const [searchParams, setSearchParams] = useSearchParams()
+  const filters = useMemo(() => parseResponseFilters(searchParams), [searchParams])
+  const [searchInput, setSearchInput] = useState(filters.query)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState('')
 
   const [stats, setStats] = useState({
     totalResponses: 0,
     thisWeek: 0,
-    avgRating: 0
+    avgRating: null as string | null
   })
 
   useEffect(() => {
@@ -25,6 +58,86 @@ export const Responses: React.FC = () => {
     }
   }, [user])
 
+  // Filters are replaced in place rather than pushed, so typing does not flood the history
+  const updateFilters = useCallback((changes: Partial<ResponseFilters>) => {
+    setSearchParams(toSearchParams({ ...filters, ...changes }), { replace: true })
+  }, [filters, setSearchParams])
+
+  const clearFilters = () => {
+    setSearchInput('')
+    setSearchParams(toSearchParams(EMPTY_FILTERS), { replace: true })
+  }
+
+  // Follow the URL when it changes underneath the search box, e.g. on back navigation
+  useEffect(() => {
+    setSearchInput(filters.query)
+  }, [filters.query])
+
+  // Search once the user pauses typing
+  useEffect(() => {
+    if (searchInput === filters.query) return
+    const timeout = setTimeout(() => updateFilters({ query: searchInput }), 300)
+    return () => clearTimeout(timeout)
+  }, [searchInput, filters.query, updateFilters])
+
+  const loadFormQuestions = useCallback(async () => {
+    if (!filters.formId) {
+      setFormQuestions([])
+      return
+    }
+
+    const { data, error: questionsError } = await supabase
+      .from('questions')
+      .select('*')
+      .eq('form_id', filters.formId)
+      .is('deleted_at', null)
+      .order('order_index')
+
+    if (questionsError) {
+      console.error('Error loading questions:', questionsError)
+    }
+    setFormQuestions(getAnswerableQuestions(data || []))
+  }, [filters.formId])
+
+  useEffect(() => {
+    if (user) {
+      loadFormQuestions()
+    }
+  }, [user, loadFormQuestions])
+
+  // Stats are aggregated in the database and follow the form filter
+  const loadStats = useCallback(async () => {
+    try {
+      const formId = filters.formId
+
+      const [counts, daily, distribution] = await Promise.all([
+        getFormResponseCounts(),
+        getDailyResponseCounts(7, formId),
+        getAnswerDistribution(formId)
+      ])
+
+      if (counts.error) throw counts.error
+      if (daily.error) throw daily.error
+      if (distribution.error) throw distribution.error
+
+      setStats({
+        totalResponses: counts.data
+          .filter(form => formId === null || form.form_id === formId)
+          .reduce((sum, form) => sum + form.response_count, 0),
+        thisWeek: daily.data.reduce((sum, day) => sum + day.response_count, 0),
+        avgRating: formatRatingStats(computeRatingStats(toRatedAnswers(distribution.data)))
+      })
+    } catch (err) {
+      console.error('Error loading response stats:', err)
+    }
+  }, [filters.formId])
+
+  useEffect(() => {
+    if (user) {
+      loadStats()
+    }
+  }, [user, loadStats])
+
   const loadData = async () => {
     try {
       setLoading(true)
@@ -35,116 +148,126 @@ export const Responses: React.FC = () => {
         .from('forms')
         .select('id, title')
         .eq('user_id', user?.id)
+        .is('deleted_at', null)
 
       if (formsError) throw formsError
       setForms(formsData || [])
 
-      // Load responses with form and question details
-      const { data: responsesData, error: responsesError } = await supabase
-        .from('responses')
-        .select(`
+    } catch (err) {
+      setError('Failed to load responses')
+      console.error('Error loading responses:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Loads responses matching the filters with form and question details, newest
+  // first, after `cursor`. The first page also counts every matching response.
+  const fetchResponses = useCallback(async (cursor: ResponseCursor | null, limit: number) => {
+    let query = supabase.rpc('search_responses', toSearchArgs(filters), { count: cursor ? undefined : 'exact' })
+
+    if (cursor) {
+      query = query.or(afterCursor(cursor))
+    }
+
+    const { data: responsesData, error: responsesError, count } = await query
+      .select(`
+        id,
+        form_version_id,
+        submitted_at,
+        is_complete,
+        forms(id, title),
+        answers(
           id,
-          submitted_at,
-          forms!inner(id, title, user_id),
-          answers(
-            answer_text,
-            questions(question_text, question_type)
-          )
-        `)
-        .eq('forms.user_id', user?.id)
-        .order('submitted_at', { ascending: false })
-
-      if (responsesError) throw responsesError
-
-      // Transform responses data
-      const transformedResponses = responsesData?.map(response => ({
+          question_id,
+          answer_text,
+          answer_options,
+          questions(question_text, question_type, options, order_index)
+        )
+      `)
+      .order('submitted_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit)
+
+    if (responsesError) throw responsesError
+
+    const page = toPage(responsesData || [], limit - 1)
+
+    // Transform responses data
+    const transformedResponses: ExportResponse[] = page.items.map(response => {
+      // The embedded form is a single row, not the array the client types suggest
+      const form = response.forms as unknown as { id: string; title: string }
+      const answers = response.answers as unknown as (Omit<ExportAnswer, 'question_text' | 'question_type' | 'options' | 'order_index'> & {
+        questions: Pick<ExportAnswer, 'question_text' | 'question_type' | 'options' | 'order_index'>
+      })[]
+      return {
         id: response.id,
-        formTitle: response.forms.title,
-        formId: response.forms.id,
-        submittedAt: response.submitted_at,
-        answers: response.answers.reduce((acc: any, answer: any) => {
-          acc[answer.questions.question_text] = answer.answer_text
-          return acc
-        }, {})
-      })) || []
-
-      setResponses(transformedResponses)
-
-      // Calculate stats
-      const totalResponses = transformedResponses.length
-      const oneWeekAgo = new Date()
-      oneWeekAgo.setDate(oneWeekAgo.getDate() - 7)
-      
-      const thisWeekResponses = transformedResponses.filter(
-        r => new Date(r.submittedAt) > oneWeekAgo
-      ).length
-
-      // Calculate average rating from rating questions
-      const ratingAnswers = transformedResponses.flatMap(r => 
-        Object.values(r.answers).filter((answer: any) => 
-          /^[1-5]$/.test(answer.toString())
-        ).map(Number)
-      )
-      
-      const avgRating = ratingAnswers.length > 0 
-        ? ratingAnswers.reduce((sum, rating) => sum + rating, 0) / ratingAnswers.length
-        : 0
+        form_id: form.id,
+        form_title: form.title,
+        form_version_id: response.form_version_id,
+        submitted_at: response.submitted_at,
+        is_complete: response.is_complete,
+        answers: answers
+          .map(({ questions: question, ...answer }) => ({ ...answer, ...question, options: question.options || [] }))
+          .sort((a, b) => a.order_index - b.order_index)
+      }
+    })
 
-      setStats({
-        totalResponses,
-        thisWeek: thisWeekResponses,
-        avgRating: Math.round(avgRating * 10) / 10
-      })
+    return { items: transformedResponses, nextCursor: page.nextCursor, count }
+  }, [filters])
+
+  // Start over from the newest response whenever the filters or page size change
+  const loadFirstPage = useCallback(async () => {
+    try {
+      const page = await fetchResponses(null, pageSize + 1)
+      setResponses(page.items)
+      setNextCursor(page.nextCursor)
+      setMatchingCount(page.count)
+    } catch (err) {
+      setError('Failed to load responses')
+      console.error('Error loading responses:', err)
+    }
+  }, [fetchResponses, pageSize])
 
+  useEffect(() => {
+    if (user) {
+      loadFirstPage()
+    }
+  }, [user, loadFirstPage])
+
+  const loadMore = async () => {
+    if (!nextCursor) return
+    try {
+      setLoadingMore(true)
+      const page = await fetchResponses(nextCursor, pageSize + 1)
+      setResponses(current => [...current, ...page.items])
+      setNextCursor(page.nextCursor)
     } catch (err) {
       setError('Failed to load responses')
       console.error('Error loading responses:', err)
     } finally {
-      setLoading(false)
+      setLoadingMore(false)
     }
   }
 
-  const exportToCSV = () => {
-    if (responses.length === 0) return
-
-    // Get all unique questions across all responses
-    const allQuestions = new Set<string>()
-    responses.forEach(response => {
-      Object.keys(response.answers).forEach(question => {
-        allQuestions.add(question)
+  // Exports every response matching the filters, not only the loaded pages
+  const handleExport = async (format: ExportFormat) => {
+    try {
+      setExporting(true)
+      await exportResponses(cursor => fetchResponses(cursor, EXPORT_PAGE_SIZE + 1), format, 'feedback-responses', {
+        includeFormTitle: true
       })
-    })
-
-    const headers = ['Form Title', 'Submitted At', ...Array.from(allQuestions)]
-    const csvContent = [
-      headers.join(','),
-      ...responses.map(response => [
-        `"${response.formTitle}"`,
-        new Date(response.submittedAt).toLocaleString(),
-        ...Array.from(allQuestions).map(question => 
-          `"${response.answers[question] || ''}"`
-        )
-      ].join(','))
-    ].join('\n')
-
-    const blob = new Blob([csvContent], { type: 'text/csv' })
-    const url = window.URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = 'feedback-responses.csv'
-    a.click()
-    window.URL.revokeObjectURL(url)
+      setExportOpen(false)
+    } catch (err) {
+      setError('Failed to export responses')
+      console.error('Error exporting responses:', err)
+    } finally {
+      setExporting(false)
+    }
   }
 
-  const filteredResponses = responses.filter(response => {
-    const matchesForm = selectedForm === 'all' || response.formId === selectedForm
-    const matchesSearch = searchTerm === '' || 
-      response.formTitle.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      Object.values(response.answers).some((answer: any) => 
-        answer.toLowerCase().includes(searchTerm.toLowerCase())
-      )
-    return matchesForm && matchesSearch
-  })
+  const filtered = hasActiveFilters(filters)
+  const selectedQuestion = formQuestions.find(question => question.id === filters.questionId)
 
   if (loading) {
     return (
@@ -169,23 +292,31 @@ export const Responses: React.FC = () => {
             </p>
           </div>
           <div className="flex items-center space-x-3">
-            <button 
-              onClick={exportToCSV}
-              disabled={responses.length === 0}
+            <button
+              onClick={() => setExportOpen(true)}
+              disabled={matchingCount === 0}
               className="bg-gradient-to-r from-blue-600 to-purple-600 text-white px-4 py-2 rounded-lg hover:from-blue-700 hover:to-purple-700 transition-all duration-300 inline-flex items-center transform hover:scale-105 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
             >
               <Download className="h-4 w-4 mr-2" />
-              Export CSV
+              Export
             </button>
           </div>
         </div>
 
+        <ExportDialog
+          open={exportOpen}
+          onOpenChange={setExportOpen}
+          count={matchingCount}
+          exporting={exporting}
+          onExport={handleExport}
+        />
+
         {/* Stats Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8 animate-slide-up">
           {[
             { label: 'Total Responses', value: stats.totalResponses.toString(), change: '+12%' },
             { label: 'This Week', value: stats.thisWeek.toString(), change: '+8%' },
-            { label: 'Avg. Rating', value: stats.avgRating > 0 ? stats.avgRating.toString() : 'N/A', change: '+0.3' }
+            { label: 'Avg. Rating', value: stats.avgRating ?? 'N/A', change: '+0.3' }
           ].map((stat, index) => (
             <div key={index} className="bg-white dark:bg-gray-800 rounded-xl shadow-lg hover:shadow-xl p-6 border border-gray-200 dark:border-gray-700 transition-all duration-300 transform hover:-translate-y-1">
               <div className="flex items-center justify-between">
@@ -208,29 +339,146 @@ export const Responses: React.FC = () => {
               <Search className="h-5 w-5 text-gray-400 dark:text-gray-500 absolute left-3 top-1/2 transform -translate-y-1/2" />
               <input
                 type="text"
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                placeholder="Search responses..."
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                placeholder='Search answers, e.g. "too slow" -price'
                 className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400"
               />
             </div>
             <select 
-              value={selectedForm}
-              onChange={(e) => setSelectedForm(e.target.value)}
-              className="border border-gray-300 dark:border-gray-600 rounded-lg px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              value={filters.formId ?? 'all'}
+              // Questions belong to a form, so switching forms drops the question filter
+              onChange={(e) => updateFilters({
+                formId: e.target.value === 'all' ? null : e.target.value,
+                questionId: null,
+                value: ''
+              })}
+              className={FILTER_INPUT_CLASS}
             >
-              <option>All Forms</option>
+              <option value="all">All Forms</option>
               {forms.map(form => (
                 <option key={form.id} value={form.id}>{form.title}</option>
               ))}
             </select>
-            <select className="border border-gray-300 dark:border-gray-600 rounded-lg px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white">
-              <option>Last 30 days</option>
-              <option>Last 7 days</option>
-              <option>Last 3 months</option>
-              <option>All time</option>
+            <select
+              value={filters.status ?? 'all'}
+              onChange={(e) => updateFilters({ status: COMPLETION_STATUSES.find(s => s.value === e.target.value)?.value ?? null })}
+              className={FILTER_INPUT_CLASS}
+            >
+              <option value="all">Any status</option>
+              {COMPLETION_STATUSES.map(status => (
+                <option key={status.value} value={status.value}>{status.label}</option>
+              ))}
             </select>
           </div>
+
+          <div className="flex flex-wrap items-end gap-4 mt-4">
+            <div>
+              <label htmlFor="filter-from" className="block text-sm font-medium text-gray-600 dark:text-gray-400 mb-1">From</label>
+              <input
+                id="filter-from"
+                type="date"
+                value={filters.from}
+                max={filters.to || undefined}
+                onChange={(e) => updateFilters({ from: e.target.value })}
+                className={FILTER_INPUT_CLASS}
+              />
+            </div>
+            <div>
+              <label htmlFor="filter-to" className="block text-sm font-medium text-gray-600 dark:text-gray-400 mb-1">To</label>
+              <input
+                id="filter-to"
+                type="date"
+                value={filters.to}
+                min={filters.from || undefined}
+                onChange={(e) => updateFilters({ to: e.target.value })}
+                className={FILTER_INPUT_CLASS}
+              />
+            </div>
+
+            {filters.formId && (
+              <div>
+                <label htmlFor="filter-question" className="block text-sm font-medium text-gray-600 dark:text-gray-400 mb-1">Question</label>
+                <select
+                  id="filter-question"
+                  value={filters.questionId ?? ''}
+                  onChange={(e) => updateFilters({ questionId: e.target.value || null, value: '' })}
+                  className={`${FILTER_INPUT_CLASS} max-w-xs`}
+                >
+                  <option value="">Any question</option>
+                  {formQuestions.map(question => (
+                    <option key={question.id} value={question.id}>{question.question_text}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {/* Scale questions are filtered by the rating range instead of a single value */}
+            {selectedQuestion && !isScaleQuestion(selectedQuestion) && (
+              <div>
+                <label htmlFor="filter-value" className="block text-sm font-medium text-gray-600 dark:text-gray-400 mb-1">Answer</label>
+                {selectedQuestion.options.length > 0 ? (
+                  <select
+                    id="filter-value"
+                    value={filters.value}
+                    onChange={(e) => updateFilters({ value: e.target.value })}
+                    className={FILTER_INPUT_CLASS}
+                  >
+                    <option value="">Any answer</option>
+                    {selectedQuestion.options.filter(option => option.trim()).map(option => (
+                      <option key={option} value={option}>{option}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <input
+                    id="filter-value"
+                    type="text"
+                    value={filters.value}
+                    onChange={(e) => updateFilters({ value: e.target.value })}
+                    placeholder="Exact answer"
+                    className={FILTER_INPUT_CLASS}
+                  />
+                )}
+              </div>
+            )}
+
+            {(!selectedQuestion || isScaleQuestion(selectedQuestion)) && (
+              <div>
+                <label htmlFor="filter-rating-min" className="block text-sm font-medium text-gray-600 dark:text-gray-400 mb-1">
+                  {selectedQuestion ? 'Score' : 'Rating or score'}
+                </label>
+                <div className="flex items-center space-x-2">
+                  <input
+                    id="filter-rating-min"
+                    type="number"
+                    value={filters.ratingMin ?? ''}
+                    onChange={(e) => updateFilters({ ratingMin: parseNumberInput(e.target.value) })}
+                    placeholder="Min"
+                    className={`${FILTER_INPUT_CLASS} w-24`}
+                  />
+                  <span className="text-gray-500 dark:text-gray-400">–</span>
+                  <input
+                    aria-label="Maximum rating"
+                    type="number"
+                    value={filters.ratingMax ?? ''}
+                    onChange={(e) => updateFilters({ ratingMax: parseNumberInput(e.target.value) })}
+                    placeholder="Max"
+                    className={`${FILTER_INPUT_CLASS} w-24`}
+                  />
+                </div>
+              </div>
+            )}
+
+            {filtered && (
+              <button
+                onClick={clearFilters}
+                className="inline-flex items-center px-3 py-2 text-sm text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white transition-colors"
+              >
+                <X className="h-4 w-4 mr-1" />
+                Clear filters
+              </button>
+            )}
+          </div>
         </div>
 
         {error && (
@@ -242,33 +490,58 @@ export const Responses: React.FC = () => {
         {/* Responses List */}
         <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 animate-slide-up">
           <div className="p-6 border-b border-gray-200 dark:border-gray-700">
-            <h2 className="text-xl font-bold text-gray-900 dark:text-white">Recent Responses</h2>
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+              {filtered ? 'Matching Responses' : 'Recent Responses'}
+              {matchingCount !== null && ` (${matchingCount})`}
+            </h2>
           </div>
           
-          {filteredResponses.length > 0 ? (
-            <div className="divide-y divide-gray-200 dark:divide-gray-700">
-              {filteredResponses.map((response) => (
-                <div key={response.id} className="p-6 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
-                  <div className="flex items-start justify-between mb-4">
-                    <div>
-                      <h3 className="font-semibold text-gray-900 dark:text-white">{response.formTitle}</h3>
-                      <p className="text-sm text-gray-500 dark:text-gray-400">
-                        Submitted {new Date(response.submittedAt).toLocaleDateString()} at{' '}
-                        {new Date(response.submittedAt).toLocaleTimeString()}
-                      </p>
+          {responses.length > 0 ? (
+            <div className="px-6">
+              <VirtualList
+                items={responses}
+                getKey={response => response.id}
+                gap={0}
+                renderItem={(response) => (
+                  <div className="py-6 border-b border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
+                    <div className="flex items-start justify-between mb-4">
+                      <div>
+                        <h3 className="font-semibold text-gray-900 dark:text-white">
+                          {response.form_title}
+                          {!response.is_complete && (
+                            <span className="ml-2 px-2 py-0.5 text-xs font-normal rounded-full bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-400">
+                              Partial
+                            </span>
+                          )}
+                        </h3>
+                        <p className="text-sm text-gray-500 dark:text-gray-400">
+                          Submitted {new Date(response.submitted_at).toLocaleDateString()} at{' '}
+                          {new Date(response.submitted_at).toLocaleTimeString()}
+                        </p>
+                      </div>
                     </div>
-                  </div>
                   
-                  <div className="space-y-3">
-                    {Object.entries(response.answers).map(([question, answer], index) => (
-                      <div key={index} className="bg-gray-50 dark:bg-gray-700/50 p-4 rounded-lg">
-                        <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{question}</p>
-                        <p className="text-gray-900 dark:text-white font-medium">{answer}</p>
-                      </div>
-                    ))}
+                    <div className="space-y-3">
+                      {response.answers.map(answer => (
+                        <div key={answer.question_id} className="bg-gray-50 dark:bg-gray-700/50 p-4 rounded-lg">
+                          <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{answer.question_text}</p>
+                          <p className="text-gray-900 dark:text-white font-medium">{answer.answer_text}</p>
+                        </div>
+                      ))}
+                    </div>
                   </div>
-                </div>
-              ))}
+                )}
+              />
+
+              <PaginationControls
+                loaded={responses.length}
+                total={matchingCount}
+                pageSize={pageSize}
+                onPageSizeChange={setPageSize}
+                hasMore={nextCursor !== null}
+                loadingMore={loadingMore}
+                onLoadMore={loadMore}
+              />
             </div>
           ) : (
             <div className="text-center py-12">
@@ -276,12 +549,12 @@ export const Responses: React.FC = () => {
                 <BarChart3 className="h-16 w-16 text-gray-400 dark:text-gray-500" />
               </div>
               <h3 className="text-2xl font-bold text-gray-900 dark:text-white mb-4">
-                {responses.length === 0 ? 'No responses yet' : 'No matching responses'}
+                {filtered ? 'No matching responses' : 'No responses yet'}
               </h3>
               <p className="text-gray-600 dark:text-gray-400 text-lg">
-                {responses.length === 0 
-                  ? 'Responses will appear here once people start submitting your forms.'
-                  : 'Try adjusting your search or filter criteria.'
+                {filtered
+                  ? 'Try adjusting your search or filter criteria.'
+                  : 'Responses will appear here once people start submitting your forms.'
                 }
               </p>
             </div>
@@ -1,24 +1,99 @@
+export type QuestionType = 'text' | 'multiple_choice' | 'checkbox' | 'rating' | 'nps' | 'page_break'
+
+// A single answer in the public form: checkbox questions hold every selected option
+export type AnswerValue = string | string[]
+
+export type RatingStyle = 'numbers' | 'stars' | 'emoji'
+
+// Type specific configuration, stored in the `settings` column
+export interface QuestionSettings {
+  // Checkbox questions: bounds on how many options may be selected
+  min_selections?: number | null
+  max_selections?: number | null
+  // Rating questions: scale bounds, endpoint labels and how the scale is drawn
+  rating_min?: number
+  rating_max?: number
+  rating_step?: number
+  min_label?: string
+  max_label?: string
+  rating_style?: RatingStyle
+}
+
+export type LogicOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'less_than_or_equal'
+  | 'greater_than_or_equal'
+  | 'is_answered'
+
+// A test against a single answer, e.g. "rating ≤ 2"
+export interface LogicRule {
+  operator: LogicOperator
+  value: string
+}
+
+// A test against the answer of another (earlier) question
+export interface LogicCondition extends LogicRule {
+  question_id: string
+}
+
+export interface QuestionLogic {
+  // Show the question only when every condition matches
+  show_if?: LogicCondition[]
+  // Hide every later question when this question's own answer matches
+  skip_to_end_if?: LogicRule | null
+}
+
 export interface Question {
   id: string
   question_text: string
-  question_type: 'text' | 'multiple_choice' | 'rating'
+  question_type: QuestionType
   options: string[]
   is_required: boolean
   order_index: number
+  logic: QuestionLogic
+  settings: QuestionSettings
+  deleted_at?: string | null
 }
 
+// How respondents are told apart when a form takes one response per person:
+// a token kept by the browser, a verified email address or a signed in account
+export type ResponseLimit = 'none' | 'browser' | 'email' | 'user'
+
 export interface FormData {
   id?: string
   title: string
   description: string
   is_active: boolean
+  // Optional response window and cap; null or missing means no limit
+  opens_at?: string | null
+  closes_at?: string | null
+  max_responses?: number | null
+  // Who may respond only once, and whether they can change their answers
+  response_limit?: ResponseLimit
+  allow_response_edits?: boolean
+  questions: Question[]
+}
+
+export interface FormVersion {
+  id: string
+  form_id: string
+  version_number: number
+  title: string
+  description: string
+  is_active: boolean
   questions: Question[]
+  created_at: string
 }
 
 export interface FormResponse {
   id: string
   form_id: string
+  form_version_id: string | null
   submitted_at: string
+  // False when the respondent skipped optional questions they were shown
+  is_complete: boolean
   answers: Answer[]
 }
 
@@ -26,4 +101,6 @@ export interface Answer {
   id: string
   question_id: string
   answer_text: string
+  // Selected options for checkbox questions, null for every other type
+  answer_options: string[] | null
 }
\ No newline at end of file
@@ -0,0 +1,36 @@
+/*
+  # Soft-delete Questions on Form Edit
+
+  1. Problem
+    - Editing a form deleted every question and re-inserted it
+    - `answers.question_id` is ON DELETE CASCADE, so every edit wiped collected answers
+
+  2. Changes
+    - Add `deleted_at` to `questions`; removed questions are stamped instead of deleted
+    - Public question reads skip soft-deleted questions
+    - Partial index for loading the live questions of a form
+
+  3. Security
+    - Owners keep full access to their questions, including removed ones,
+      so historical responses can still show the original question text
+*/
+
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+-- Anonymous respondents should only ever see live questions
+DROP POLICY IF EXISTS "Public can read questions for active forms" ON questions;
+
+CREATE POLICY "Public can read questions for active forms"
+  ON questions
+  FOR SELECT
+  TO anon
+  USING (
+    deleted_at IS NULL
+    AND EXISTS (
+      SELECT 1 FROM forms 
+      WHERE forms.id = questions.form_id 
+      AND forms.is_active = true
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_questions_live ON questions(form_id, order_index) WHERE deleted_at IS NULL;
@@ -0,0 +1,120 @@
+/*
+  # Form Versions
+
+  1. New Tables
+    - `form_versions` - immutable snapshot of a `forms` row and its live `questions`,
+      numbered per form starting at 1
+
+  2. Changes
+    - Add `form_version_id` to `responses`, pinned to the latest version on insert
+    - `create_form_version(p_form_id)` snapshots a form; called after every save
+    - Existing forms get a version 1 snapshot; older responses stay unpinned
+
+  3. Security
+    - Owners can read and create versions of their own forms
+    - No update or delete policies, so versions cannot be changed once written
+    - The pinning trigger runs as definer because anonymous respondents cannot read versions
+*/
+
+CREATE TABLE IF NOT EXISTS form_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  form_id uuid REFERENCES forms(id) ON DELETE CASCADE NOT NULL,
+  version_number integer NOT NULL,
+  title text NOT NULL,
+  description text DEFAULT '',
+  is_active boolean DEFAULT true,
+  questions jsonb NOT NULL DEFAULT '[]',
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (form_id, version_number)
+);
+
+ALTER TABLE responses
+  ADD COLUMN IF NOT EXISTS form_version_id uuid REFERENCES form_versions(id) ON DELETE SET NULL;
+
+ALTER TABLE form_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read versions of own forms"
+  ON form_versions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM forms 
+      WHERE forms.id = form_versions.form_id 
+      AND forms.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create versions of own forms"
+  ON form_versions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM forms 
+      WHERE forms.id = form_versions.form_id 
+      AND forms.user_id = auth.uid()
+    )
+  );
+
+-- Snapshot the form and its live questions as the next version
+CREATE OR REPLACE FUNCTION public.create_form_version(p_form_id uuid)
+RETURNS form_versions AS $$
+DECLARE
+  v_version form_versions;
+BEGIN
+  -- Serialize concurrent saves of the same form so version numbers stay unique
+  PERFORM 1 FROM forms WHERE id = p_form_id FOR UPDATE;
+
+  INSERT INTO form_versions (form_id, version_number, title, description, is_active, questions)
+  SELECT
+    f.id,
+    COALESCE((SELECT max(v.version_number) FROM form_versions v WHERE v.form_id = f.id), 0) + 1,
+    f.title,
+    f.description,
+    f.is_active,
+    COALESCE(
+      (
+        SELECT jsonb_agg(to_jsonb(q) ORDER BY q.order_index)
+        FROM questions q
+        WHERE q.form_id = f.id
+        AND q.deleted_at IS NULL
+      ),
+      '[]'::jsonb
+    )
+  FROM forms f
+  WHERE f.id = p_form_id
+  RETURNING * INTO v_version;
+
+  IF v_version.id IS NULL THEN
+    RAISE EXCEPTION 'Form % not found', p_form_id;
+  END IF;
+
+  RETURN v_version;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Pin every new response to the version that was live when it was submitted
+CREATE OR REPLACE FUNCTION public.pin_response_form_version()
+RETURNS trigger AS $$
+BEGIN
+  NEW.form_version_id := (
+    SELECT id FROM public.form_versions
+    WHERE form_id = NEW.form_id
+    ORDER BY version_number DESC
+    LIMIT 1
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_response_pin_version ON responses;
+CREATE TRIGGER on_response_pin_version
+  BEFORE INSERT ON responses
+  FOR EACH ROW EXECUTE PROCEDURE public.pin_response_form_version();
+
+-- Give every existing form a starting point
+SELECT public.create_form_version(id) FROM forms;
+
+CREATE INDEX IF NOT EXISTS idx_form_versions_form_id ON form_versions(form_id, version_number);
+CREATE INDEX IF NOT EXISTS idx_responses_form_version_id ON responses(form_version_id);
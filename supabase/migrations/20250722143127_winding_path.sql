@@ -0,0 +1,14 @@
+/*
+  # Conditional Logic for Questions
+
+  1. Changes
+    - Add `logic` to `questions`
+      - `show_if`: conditions on earlier answers that must all match for the question to show
+      - `skip_to_end_if`: rule on the question's own answer that hides every later question
+
+  2. Notes
+    - Conditions reference questions by id, so ids must be stable across edits
+    - Snapshots in `form_versions` pick the column up automatically
+*/
+
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS logic jsonb NOT NULL DEFAULT '{}';
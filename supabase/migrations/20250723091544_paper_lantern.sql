@@ -0,0 +1,14 @@
+/*
+  # Page Breaks in Forms
+
+  1. Changes
+    - Allow `page_break` as a `question_type`
+    - A page break splits the public form into pages; its `question_text`
+      is the title of the section it starts and it never receives answers
+*/
+
+ALTER TABLE questions DROP CONSTRAINT IF EXISTS questions_question_type_check;
+
+ALTER TABLE questions
+  ADD CONSTRAINT questions_question_type_check
+  CHECK (question_type IN ('text', 'multiple_choice', 'rating', 'page_break'));
@@ -0,0 +1,26 @@
+/*
+  # Checkbox (Multi-select) Questions
+
+  1. Changes
+    - Allow `checkbox` as a `question_type`
+    - Add `settings` to `questions` for type specific configuration,
+      e.g. `min_selections` / `max_selections` for checkbox questions
+    - Add `answer_options` to `answers` holding every selected option;
+      `answer_text` keeps a readable comma separated copy
+
+  2. Performance
+    - GIN index on `answer_options` so per-option counts and
+      "selected X" filters can use `@>` / `&&`
+*/
+
+ALTER TABLE questions DROP CONSTRAINT IF EXISTS questions_question_type_check;
+
+ALTER TABLE questions
+  ADD CONSTRAINT questions_question_type_check
+  CHECK (question_type IN ('text', 'multiple_choice', 'checkbox', 'rating', 'page_break'));
+
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS settings jsonb NOT NULL DEFAULT '{}';
+
+ALTER TABLE answers ADD COLUMN IF NOT EXISTS answer_options text[];
+
+CREATE INDEX IF NOT EXISTS idx_answers_answer_options ON answers USING GIN (answer_options);
@@ -0,0 +1,14 @@
+/*
+  # Net Promoter Score Questions
+
+  1. Changes
+    - Allow `nps` as a `question_type`. NPS questions always use a fixed
+      0–10 scale, so they need no `settings`; answers are stored in
+      `answer_text` like rating answers
+*/
+
+ALTER TABLE questions DROP CONSTRAINT IF EXISTS questions_question_type_check;
+
+ALTER TABLE questions
+  ADD CONSTRAINT questions_question_type_check
+  CHECK (question_type IN ('text', 'multiple_choice', 'checkbox', 'rating', 'nps', 'page_break'));
@@ -0,0 +1,103 @@
+/*
+  # Server-side Response Aggregates
+
+  1. New Functions
+    - `get_form_response_counts()` - every form of the current user with its
+      response count and latest submission, newest form first
+    - `get_daily_response_counts(p_days, p_form_id)` - responses per UTC day for
+      the last `p_days` days, including days without responses; all of the
+      user's forms when `p_form_id` is null
+    - `get_answer_distribution(p_form_id)` - how often each value was given per
+      question, with checkbox answers split into their selected options. Text
+      questions are left out
+    - `get_monthly_answer_distribution(p_question_type, p_form_id)` - the same
+      counts per calendar month, for trends such as NPS over time
+
+  2. Performance
+    - Index on `responses(form_id, submitted_at)` for the per-day counts
+
+  3. Security
+    - Functions run as invoker, so the existing row level security limits them
+      to the caller's own forms; they also filter on `auth.uid()` explicitly
+*/
+
+CREATE OR REPLACE FUNCTION public.get_form_response_counts()
+RETURNS TABLE (
+  form_id uuid,
+  title text,
+  is_active boolean,
+  created_at timestamptz,
+  response_count bigint,
+  last_response_at timestamptz
+) AS $$
+  SELECT f.id, f.title, f.is_active, f.created_at, count(r.id), max(r.submitted_at)
+  FROM forms f
+  LEFT JOIN responses r ON r.form_id = f.id
+  WHERE f.user_id = auth.uid()
+  GROUP BY f.id
+  ORDER BY f.created_at DESC;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.get_daily_response_counts(
+  p_days integer DEFAULT 30,
+  p_form_id uuid DEFAULT NULL
+)
+RETURNS TABLE (day date, response_count bigint) AS $$
+  WITH bounds AS (
+    SELECT (now() AT TIME ZONE 'UTC')::date - (GREATEST(p_days, 1) - 1) AS first_day
+  ),
+  counts AS (
+    SELECT (r.submitted_at AT TIME ZONE 'UTC')::date AS day, count(*) AS response_count
+    FROM responses r
+    JOIN forms f ON f.id = r.form_id
+    WHERE f.user_id = auth.uid()
+    AND (p_form_id IS NULL OR r.form_id = p_form_id)
+    AND r.submitted_at >= (SELECT first_day FROM bounds)::timestamp AT TIME ZONE 'UTC'
+    GROUP BY 1
+  )
+  SELECT d.day::date, COALESCE(c.response_count, 0)
+  FROM bounds
+  CROSS JOIN generate_series(bounds.first_day, (now() AT TIME ZONE 'UTC')::date, interval '1 day') AS d(day)
+  LEFT JOIN counts c ON c.day = d.day::date
+  ORDER BY 1;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.get_answer_distribution(p_form_id uuid DEFAULT NULL)
+RETURNS TABLE (
+  question_id uuid,
+  question_type text,
+  settings jsonb,
+  value text,
+  answer_count bigint
+) AS $$
+  SELECT q.id, q.question_type, q.settings, v.value, count(*)
+  FROM answers a
+  JOIN questions q ON q.id = a.question_id
+  JOIN forms f ON f.id = q.form_id
+  CROSS JOIN LATERAL unnest(
+    CASE WHEN q.question_type = 'checkbox' THEN a.answer_options ELSE ARRAY[a.answer_text] END
+  ) AS v(value)
+  WHERE f.user_id = auth.uid()
+  AND (p_form_id IS NULL OR f.id = p_form_id)
+  AND q.question_type <> 'text'
+  GROUP BY q.id, v.value;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.get_monthly_answer_distribution(
+  p_question_type text,
+  p_form_id uuid DEFAULT NULL
+)
+RETURNS TABLE (question_id uuid, month text, value text, answer_count bigint) AS $$
+  SELECT a.question_id, to_char(r.submitted_at AT TIME ZONE 'UTC', 'YYYY-MM'), a.answer_text, count(*)
+  FROM answers a
+  JOIN responses r ON r.id = a.response_id
+  JOIN questions q ON q.id = a.question_id
+  JOIN forms f ON f.id = q.form_id
+  WHERE f.user_id = auth.uid()
+  AND q.question_type = p_question_type
+  AND (p_form_id IS NULL OR f.id = p_form_id)
+  GROUP BY 1, 2, 3
+  ORDER BY 2;
+$$ LANGUAGE sql STABLE;
+
+CREATE INDEX IF NOT EXISTS idx_responses_form_submitted ON responses(form_id, submitted_at DESC);
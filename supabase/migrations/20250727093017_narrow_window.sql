@@ -0,0 +1,130 @@
+/*
+  # Paginated Responses
+
+  Response pages now load one page of responses at a time, so every summary
+  they show has to come from the database instead of the loaded rows.
+
+  1. Changes
+    - `get_answer_distribution` also groups by form version and returns
+      `answers_total`, the number of answers to the question in that version,
+      so checkbox percentages can be worked out per respondent. Text questions
+      return one row with a null `value` that carries their answer count
+    - `get_monthly_answer_distribution` also groups by form version
+
+  2. New Functions
+    - `get_version_response_counts(p_form_id)` - responses per form version,
+      with a null version for responses submitted before versioning
+    - `get_latest_text_answers(p_form_id, p_limit)` - the newest non-empty
+      answers to each text question of a form
+
+  3. Performance
+    - Indexes on `responses(form_id, submitted_at DESC, id DESC)` and
+      `responses(submitted_at DESC, id DESC)` matching the keyset pagination
+      order, for one form and across forms; the first replaces the per-day index
+
+  4. Security
+    - Functions run as invoker and only see the caller's own forms
+*/
+
+DROP FUNCTION IF EXISTS public.get_answer_distribution(uuid);
+
+CREATE OR REPLACE FUNCTION public.get_answer_distribution(p_form_id uuid DEFAULT NULL)
+RETURNS TABLE (
+  question_id uuid,
+  form_version_id uuid,
+  question_type text,
+  settings jsonb,
+  value text,
+  answer_count bigint,
+  answers_total bigint
+) AS $$
+  WITH scoped AS (
+    SELECT a.question_id, r.form_version_id, q.question_type, q.settings, a.answer_text, a.answer_options
+    FROM answers a
+    JOIN responses r ON r.id = a.response_id
+    JOIN questions q ON q.id = a.question_id
+    JOIN forms f ON f.id = q.form_id
+    WHERE f.user_id = auth.uid()
+    AND (p_form_id IS NULL OR f.id = p_form_id)
+  ),
+  totals AS (
+    SELECT s.question_id, s.form_version_id, count(*) AS answers_total
+    FROM scoped s
+    GROUP BY 1, 2
+  )
+  SELECT s.question_id, s.form_version_id, s.question_type, s.settings, v.value, count(*), t.answers_total
+  FROM scoped s
+  CROSS JOIN LATERAL unnest(
+    CASE
+      WHEN s.question_type = 'checkbox' THEN s.answer_options
+      -- Free text is only counted; see get_latest_text_answers for the values
+      WHEN s.question_type = 'text' THEN ARRAY[NULL::text]
+      ELSE ARRAY[s.answer_text]
+    END
+  ) AS v(value)
+  JOIN totals t
+    ON t.question_id = s.question_id
+    AND t.form_version_id IS NOT DISTINCT FROM s.form_version_id
+  GROUP BY s.question_id, s.form_version_id, s.question_type, s.settings, v.value, t.answers_total;
+$$ LANGUAGE sql STABLE;
+
+DROP FUNCTION IF EXISTS public.get_monthly_answer_distribution(text, uuid);
+
+CREATE OR REPLACE FUNCTION public.get_monthly_answer_distribution(
+  p_question_type text,
+  p_form_id uuid DEFAULT NULL
+)
+RETURNS TABLE (question_id uuid, form_version_id uuid, month text, value text, answer_count bigint) AS $$
+  SELECT
+    a.question_id,
+    r.form_version_id,
+    to_char(r.submitted_at AT TIME ZONE 'UTC', 'YYYY-MM'),
+    a.answer_text,
+    count(*)
+  FROM answers a
+  JOIN responses r ON r.id = a.response_id
+  JOIN questions q ON q.id = a.question_id
+  JOIN forms f ON f.id = q.form_id
+  WHERE f.user_id = auth.uid()
+  AND q.question_type = p_question_type
+  AND (p_form_id IS NULL OR f.id = p_form_id)
+  GROUP BY 1, 2, 3, 4
+  ORDER BY 3;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.get_version_response_counts(p_form_id uuid)
+RETURNS TABLE (form_version_id uuid, response_count bigint) AS $$
+  SELECT r.form_version_id, count(*)
+  FROM responses r
+  JOIN forms f ON f.id = r.form_id
+  WHERE f.user_id = auth.uid()
+  AND r.form_id = p_form_id
+  GROUP BY 1;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.get_latest_text_answers(p_form_id uuid, p_limit integer DEFAULT 100)
+RETURNS TABLE (question_id uuid, form_version_id uuid, answer_text text, submitted_at timestamptz) AS $$
+  SELECT ranked.question_id, ranked.form_version_id, ranked.answer_text, ranked.submitted_at
+  FROM (
+    SELECT
+      a.question_id,
+      r.form_version_id,
+      a.answer_text,
+      r.submitted_at,
+      row_number() OVER (PARTITION BY a.question_id ORDER BY r.submitted_at DESC, r.id DESC) AS position
+    FROM answers a
+    JOIN responses r ON r.id = a.response_id
+    JOIN questions q ON q.id = a.question_id
+    JOIN forms f ON f.id = q.form_id
+    WHERE f.user_id = auth.uid()
+    AND f.id = p_form_id
+    AND q.question_type = 'text'
+    AND btrim(a.answer_text) <> ''
+  ) ranked
+  WHERE ranked.position <= p_limit
+  ORDER BY ranked.question_id, ranked.submitted_at DESC;
+$$ LANGUAGE sql STABLE;
+
+DROP INDEX IF EXISTS idx_responses_form_submitted;
+CREATE INDEX IF NOT EXISTS idx_responses_form_page ON responses(form_id, submitted_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_responses_page ON responses(submitted_at DESC, id DESC);
@@ -0,0 +1,93 @@
+/*
+  # Response Search
+
+  1. Changes
+    - Add `search_vector` to `answers`, a generated English full-text vector of
+      `answer_text`, with a GIN index
+    - Add `is_complete` to `responses`: whether the respondent answered every
+      question they were shown. New responses set it on submit; existing ones
+      are marked complete when they answer every question currently on the form
+
+  2. New Functions
+    - `search_responses(...)` - the caller's responses matching every given
+      filter; null arguments are ignored:
+      - `p_form_id` - responses to one form
+      - `p_query` - full-text search over the answers, in web search syntax
+        ("quoted phrases", -excluded words, or)
+      - `p_submitted_after` / `p_submitted_before` - submission time range,
+        inclusive and exclusive
+      - `p_question_id` with `p_value` - the question was answered with the
+        value, or the value is one of its selected checkbox options
+      - `p_rating_min` / `p_rating_max` - a rating or NPS answer falls in the
+        range; `p_question_id` narrows this to that question
+      - `p_is_complete` - completion status
+    - Returns `responses` rows, so clients can embed answers and paginate with
+      the usual filters
+
+  3. Security
+    - Runs as invoker and only sees the caller's own forms
+*/
+
+ALTER TABLE answers ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (to_tsvector('english', coalesce(answer_text, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_answers_search_vector ON answers USING GIN (search_vector);
+
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS is_complete boolean NOT NULL DEFAULT true;
+
+UPDATE responses r
+SET is_complete = (
+  SELECT count(*) FROM answers a WHERE a.response_id = r.id
+) >= (
+  SELECT count(*) FROM questions q
+  WHERE q.form_id = r.form_id
+  AND q.deleted_at IS NULL
+  AND q.question_type <> 'page_break'
+);
+
+CREATE OR REPLACE FUNCTION public.search_responses(
+  p_form_id uuid DEFAULT NULL,
+  p_query text DEFAULT NULL,
+  p_submitted_after timestamptz DEFAULT NULL,
+  p_submitted_before timestamptz DEFAULT NULL,
+  p_question_id uuid DEFAULT NULL,
+  p_value text DEFAULT NULL,
+  p_rating_min numeric DEFAULT NULL,
+  p_rating_max numeric DEFAULT NULL,
+  p_is_complete boolean DEFAULT NULL
+)
+RETURNS SETOF responses AS $$
+  SELECT r.*
+  FROM responses r
+  JOIN forms f ON f.id = r.form_id
+  WHERE f.user_id = auth.uid()
+  AND (p_form_id IS NULL OR r.form_id = p_form_id)
+  AND (p_submitted_after IS NULL OR r.submitted_at >= p_submitted_after)
+  AND (p_submitted_before IS NULL OR r.submitted_at < p_submitted_before)
+  AND (p_is_complete IS NULL OR r.is_complete = p_is_complete)
+  AND (nullif(btrim(p_query), '') IS NULL OR EXISTS (
+    SELECT 1 FROM answers a
+    WHERE a.response_id = r.id
+    AND a.search_vector @@ websearch_to_tsquery('english', p_query)
+  ))
+  AND (p_question_id IS NULL OR p_value IS NULL OR EXISTS (
+    SELECT 1 FROM answers a
+    WHERE a.response_id = r.id
+    AND a.question_id = p_question_id
+    AND (a.answer_text = p_value OR p_value = ANY(a.answer_options))
+  ))
+  AND ((p_rating_min IS NULL AND p_rating_max IS NULL) OR EXISTS (
+    SELECT 1
+    FROM answers a
+    JOIN questions q ON q.id = a.question_id
+    -- Only numeric answers are compared; the CASE keeps the cast from seeing anything else
+    CROSS JOIN LATERAL (
+      SELECT CASE WHEN a.answer_text ~ '^-?[0-9]+(\.[0-9]+)?$' THEN a.answer_text::numeric END AS rating
+    ) v
+    WHERE a.response_id = r.id
+    AND (CASE WHEN p_question_id IS NULL THEN q.question_type IN ('rating', 'nps') ELSE q.id = p_question_id END)
+    AND v.rating IS NOT NULL
+    AND (p_rating_min IS NULL OR v.rating >= p_rating_min)
+    AND (p_rating_max IS NULL OR v.rating <= p_rating_max)
+  ));
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,33 @@
+/*
+  # Response Import
+
+  1. Security
+    - Owners can insert responses and answers into their own forms, active or
+      not, so historical responses can be imported from a spreadsheet.
+      Anonymous submissions keep their existing policies
+*/
+
+CREATE POLICY "Users can import responses to own forms"
+  ON responses
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM forms
+      WHERE forms.id = responses.form_id
+      AND forms.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can import answers to own forms"
+  ON answers
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM responses r
+      JOIN forms f ON f.id = r.form_id
+      WHERE r.id = answers.response_id
+      AND f.user_id = auth.uid()
+    )
+  );
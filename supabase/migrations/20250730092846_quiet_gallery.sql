@@ -0,0 +1,46 @@
+/*
+  # Form Templates
+
+  1. New Tables
+    - `form_templates` - a user's private starting points for new forms: a title,
+      a description and the questions as a jsonb array, snapshotted from one of
+      their forms
+
+  2. Notes
+    - Built-in templates ship with the app and are not stored here
+    - Templates are copies, so later edits to the source form do not change them
+
+  3. Security
+    - Users can read, create and delete only their own templates
+*/
+
+CREATE TABLE IF NOT EXISTS form_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  title text NOT NULL,
+  description text DEFAULT '',
+  questions jsonb NOT NULL DEFAULT '[]',
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_form_templates_user_id_created_at ON form_templates(user_id, created_at DESC);
+
+ALTER TABLE form_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own templates"
+  ON form_templates
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own templates"
+  ON form_templates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own templates"
+  ON form_templates
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
@@ -0,0 +1,336 @@
+/*
+  # Archive and Trash for Forms
+
+  1. Changes
+    - Add `archived_at` to `forms`: archived forms are hidden from the form
+      lists, stop accepting responses and cannot be edited until restored.
+      Their responses stay readable
+    - Add `deleted_at` to `forms`: forms moved to the trash are hidden
+      everywhere and deleted for good, with their responses, after 30 days
+    - `get_form_response_counts()` leaves out archived and trashed forms
+    - `search_responses(...)` leaves out responses to trashed forms
+    - The answer distribution, daily and monthly counts, version counts and
+      latest text answers leave out trashed forms, and archived forms too
+      when they summarize every form
+
+  2. New Functions
+    - `purge_deleted_forms()` - permanently deletes the caller's forms that have
+      been in the trash for more than 30 days, returning how many were deleted.
+      The app calls it whenever the form list loads
+
+  3. Security
+    - Respondents can only read and answer forms that are active, not archived
+      and not in the trash
+    - Triggers reject changes to an archived form and its questions; archiving,
+      restoring and moving to the trash stay possible
+*/
+
+ALTER TABLE forms ADD COLUMN IF NOT EXISTS archived_at timestamptz;
+ALTER TABLE forms ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_forms_deleted_at ON forms(user_id, deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Respondents only see forms that are live
+DROP POLICY IF EXISTS "Public can read active forms" ON forms;
+
+CREATE POLICY "Public can read active forms"
+  ON forms
+  FOR SELECT
+  TO anon
+  USING (is_active = true AND archived_at IS NULL AND deleted_at IS NULL);
+
+DROP POLICY IF EXISTS "Public can read questions for active forms" ON questions;
+
+CREATE POLICY "Public can read questions for active forms"
+  ON questions
+  FOR SELECT
+  TO anon
+  USING (
+    deleted_at IS NULL
+    AND EXISTS (
+      SELECT 1 FROM forms
+      WHERE forms.id = questions.form_id
+      AND forms.is_active = true
+      AND forms.archived_at IS NULL
+      AND forms.deleted_at IS NULL
+    )
+  );
+
+DROP POLICY IF EXISTS "Anonymous users can submit responses to active forms" ON responses;
+
+CREATE POLICY "Anonymous users can submit responses to active forms"
+  ON responses
+  FOR INSERT
+  TO anon
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM forms
+      WHERE forms.id = form_id
+      AND forms.is_active = true
+      AND forms.archived_at IS NULL
+      AND forms.deleted_at IS NULL
+    )
+  );
+
+DROP POLICY IF EXISTS "Anonymous users can submit answers" ON answers;
+
+CREATE POLICY "Anonymous users can submit answers"
+  ON answers
+  FOR INSERT
+  TO anon
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM responses r
+      JOIN forms f ON f.id = r.form_id
+      WHERE r.id = response_id
+      AND f.is_active = true
+      AND f.archived_at IS NULL
+      AND f.deleted_at IS NULL
+    )
+  );
+
+-- Archived forms are read-only; only the archive and trash columns may change
+CREATE OR REPLACE FUNCTION public.prevent_archived_form_changes()
+RETURNS trigger AS $$
+BEGIN
+  IF OLD.archived_at IS NOT NULL AND NEW.archived_at IS NOT NULL
+    AND (NEW.title, NEW.description, NEW.is_active) IS DISTINCT FROM (OLD.title, OLD.description, OLD.is_active)
+  THEN
+    RAISE EXCEPTION 'Archived forms are read-only. Restore the form to edit it.';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_archived_form_changes ON forms;
+CREATE TRIGGER prevent_archived_form_changes
+  BEFORE UPDATE ON forms
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_archived_form_changes();
+
+-- Questions of an archived form cannot be added, changed or removed. Deleting
+-- the form itself still cascades, because the form row is gone by then.
+CREATE OR REPLACE FUNCTION public.prevent_archived_question_changes()
+RETURNS trigger AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM forms
+    WHERE forms.id = COALESCE(NEW.form_id, OLD.form_id)
+    AND forms.archived_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Archived forms are read-only. Restore the form to edit it.';
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_archived_question_changes ON questions;
+CREATE TRIGGER prevent_archived_question_changes
+  BEFORE INSERT OR UPDATE OR DELETE ON questions
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_archived_question_changes();
+
+CREATE OR REPLACE FUNCTION public.purge_deleted_forms()
+RETURNS integer AS $$
+  WITH purged AS (
+    DELETE FROM forms
+    WHERE user_id = auth.uid()
+    AND deleted_at < now() - interval '30 days'
+    RETURNING 1
+  )
+  SELECT count(*)::integer FROM purged;
+$$ LANGUAGE sql;
+
+CREATE OR REPLACE FUNCTION public.get_form_response_counts()
+RETURNS TABLE (
+  form_id uuid,
+  title text,
+  is_active boolean,
+  created_at timestamptz,
+  response_count bigint,
+  last_response_at timestamptz
+) AS $$
+  SELECT f.id, f.title, f.is_active, f.created_at, count(r.id), max(r.submitted_at)
+  FROM forms f
+  LEFT JOIN responses r ON r.form_id = f.id
+  WHERE f.user_id = auth.uid()
+  AND f.archived_at IS NULL
+  AND f.deleted_at IS NULL
+  GROUP BY f.id
+  ORDER BY f.created_at DESC;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.search_responses(
+  p_form_id uuid DEFAULT NULL,
+  p_query text DEFAULT NULL,
+  p_submitted_after timestamptz DEFAULT NULL,
+  p_submitted_before timestamptz DEFAULT NULL,
+  p_question_id uuid DEFAULT NULL,
+  p_value text DEFAULT NULL,
+  p_rating_min numeric DEFAULT NULL,
+  p_rating_max numeric DEFAULT NULL,
+  p_is_complete boolean DEFAULT NULL
+)
+RETURNS SETOF responses AS $$
+  SELECT r.*
+  FROM responses r
+  JOIN forms f ON f.id = r.form_id
+  WHERE f.user_id = auth.uid()
+  AND f.deleted_at IS NULL
+  AND (p_form_id IS NULL OR r.form_id = p_form_id)
+  AND (p_submitted_after IS NULL OR r.submitted_at >= p_submitted_after)
+  AND (p_submitted_before IS NULL OR r.submitted_at < p_submitted_before)
+  AND (p_is_complete IS NULL OR r.is_complete = p_is_complete)
+  AND (nullif(btrim(p_query), '') IS NULL OR EXISTS (
+    SELECT 1 FROM answers a
+    WHERE a.response_id = r.id
+    AND a.search_vector @@ websearch_to_tsquery('english', p_query)
+  ))
+  AND (p_question_id IS NULL OR p_value IS NULL OR EXISTS (
+    SELECT 1 FROM answers a
+    WHERE a.response_id = r.id
+    AND a.question_id = p_question_id
+    AND (a.answer_text = p_value OR p_value = ANY(a.answer_options))
+  ))
+  AND ((p_rating_min IS NULL AND p_rating_max IS NULL) OR EXISTS (
+    SELECT 1
+    FROM answers a
+    JOIN questions q ON q.id = a.question_id
+    -- Only numeric answers are compared; the CASE keeps the cast from seeing anything else
+    CROSS JOIN LATERAL (
+      SELECT CASE WHEN a.answer_text ~ '^-?[0-9]+(\.[0-9]+)?$' THEN a.answer_text::numeric END AS rating
+    ) v
+    WHERE a.response_id = r.id
+    AND (CASE WHEN p_question_id IS NULL THEN q.question_type IN ('rating', 'nps') ELSE q.id = p_question_id END)
+    AND v.rating IS NOT NULL
+    AND (p_rating_min IS NULL OR v.rating >= p_rating_min)
+    AND (p_rating_max IS NULL OR v.rating <= p_rating_max)
+  ));
+$$ LANGUAGE sql STABLE;
+
+-- Every summary leaves out trashed forms. Totals across all forms also leave out
+-- archived ones, like get_form_response_counts; a single form keeps its summaries.
+CREATE OR REPLACE FUNCTION public.get_daily_response_counts(
+  p_days integer DEFAULT 30,
+  p_form_id uuid DEFAULT NULL
+)
+RETURNS TABLE (day date, response_count bigint) AS $$
+  WITH bounds AS (
+    SELECT (now() AT TIME ZONE 'UTC')::date - (GREATEST(p_days, 1) - 1) AS first_day
+  ),
+  counts AS (
+    SELECT (r.submitted_at AT TIME ZONE 'UTC')::date AS day, count(*) AS response_count
+    FROM responses r
+    JOIN forms f ON f.id = r.form_id
+    WHERE f.user_id = auth.uid()
+    AND f.deleted_at IS NULL
+    AND (p_form_id IS NOT NULL OR f.archived_at IS NULL)
+    AND (p_form_id IS NULL OR r.form_id = p_form_id)
+    AND r.submitted_at >= (SELECT first_day FROM bounds)::timestamp AT TIME ZONE 'UTC'
+    GROUP BY 1
+  )
+  SELECT d.day::date, COALESCE(c.response_count, 0)
+  FROM bounds
+  CROSS JOIN generate_series(bounds.first_day, (now() AT TIME ZONE 'UTC')::date, interval '1 day') AS d(day)
+  LEFT JOIN counts c ON c.day = d.day::date
+  ORDER BY 1;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.get_answer_distribution(p_form_id uuid DEFAULT NULL)
+RETURNS TABLE (
+  question_id uuid,
+  form_version_id uuid,
+  question_type text,
+  settings jsonb,
+  value text,
+  answer_count bigint,
+  answers_total bigint
+) AS $$
+  WITH scoped AS (
+    SELECT a.question_id, r.form_version_id, q.question_type, q.settings, a.answer_text, a.answer_options
+    FROM answers a
+    JOIN responses r ON r.id = a.response_id
+    JOIN questions q ON q.id = a.question_id
+    JOIN forms f ON f.id = q.form_id
+    WHERE f.user_id = auth.uid()
+    AND f.deleted_at IS NULL
+    AND (p_form_id IS NOT NULL OR f.archived_at IS NULL)
+    AND (p_form_id IS NULL OR f.id = p_form_id)
+  ),
+  totals AS (
+    SELECT s.question_id, s.form_version_id, count(*) AS answers_total
+    FROM scoped s
+    GROUP BY 1, 2
+  )
+  SELECT s.question_id, s.form_version_id, s.question_type, s.settings, v.value, count(*), t.answers_total
+  FROM scoped s
+  CROSS JOIN LATERAL unnest(
+    CASE
+      WHEN s.question_type = 'checkbox' THEN s.answer_options
+      -- Free text is only counted; see get_latest_text_answers for the values
+      WHEN s.question_type = 'text' THEN ARRAY[NULL::text]
+      ELSE ARRAY[s.answer_text]
+    END
+  ) AS v(value)
+  JOIN totals t
+    ON t.question_id = s.question_id
+    AND t.form_version_id IS NOT DISTINCT FROM s.form_version_id
+  GROUP BY s.question_id, s.form_version_id, s.question_type, s.settings, v.value, t.answers_total;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.get_monthly_answer_distribution(
+  p_question_type text,
+  p_form_id uuid DEFAULT NULL
+)
+RETURNS TABLE (question_id uuid, form_version_id uuid, month text, value text, answer_count bigint) AS $$
+  SELECT
+    a.question_id,
+    r.form_version_id,
+    to_char(r.submitted_at AT TIME ZONE 'UTC', 'YYYY-MM'),
+    a.answer_text,
+    count(*)
+  FROM answers a
+  JOIN responses r ON r.id = a.response_id
+  JOIN questions q ON q.id = a.question_id
+  JOIN forms f ON f.id = q.form_id
+  WHERE f.user_id = auth.uid()
+  AND f.deleted_at IS NULL
+  AND (p_form_id IS NOT NULL OR f.archived_at IS NULL)
+  AND q.question_type = p_question_type
+  AND (p_form_id IS NULL OR f.id = p_form_id)
+  GROUP BY 1, 2, 3, 4
+  ORDER BY 3;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.get_version_response_counts(p_form_id uuid)
+RETURNS TABLE (form_version_id uuid, response_count bigint) AS $$
+  SELECT r.form_version_id, count(*)
+  FROM responses r
+  JOIN forms f ON f.id = r.form_id
+  WHERE f.user_id = auth.uid()
+  AND f.deleted_at IS NULL
+  AND r.form_id = p_form_id
+  GROUP BY 1;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.get_latest_text_answers(p_form_id uuid, p_limit integer DEFAULT 100)
+RETURNS TABLE (question_id uuid, form_version_id uuid, answer_text text, submitted_at timestamptz) AS $$
+  SELECT ranked.question_id, ranked.form_version_id, ranked.answer_text, ranked.submitted_at
+  FROM (
+    SELECT
+      a.question_id,
+      r.form_version_id,
+      a.answer_text,
+      r.submitted_at,
+      row_number() OVER (PARTITION BY a.question_id ORDER BY r.submitted_at DESC, r.id DESC) AS position
+    FROM answers a
+    JOIN responses r ON r.id = a.response_id
+    JOIN questions q ON q.id = a.question_id
+    JOIN forms f ON f.id = q.form_id
+    WHERE f.user_id = auth.uid()
+    AND f.deleted_at IS NULL
+    AND f.id = p_form_id
+    AND q.question_type = 'text'
+    AND btrim(a.answer_text) <> ''
+  ) ranked
+  WHERE ranked.position <= p_limit
+  ORDER BY ranked.question_id, ranked.submitted_at DESC;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,76 @@
+/*
+  # Form Schedules and Response Caps
+
+  1. Changes
+    - Add `opens_at` and `closes_at` to `forms`: when set, the form only accepts
+      responses from `opens_at` and until `closes_at`
+    - Add `max_responses` to `forms`: when set, the form stops accepting
+      responses once it has that many
+    - The archived-form trigger also protects the new columns
+
+  2. New Functions
+    - `form_accepts_responses(p_form_id)` - whether a form is active, not
+      archived or trashed, inside its schedule and below its response cap.
+      Respondents call it to tell a full form from an open one
+
+  3. Security
+    - Anonymous responses are only accepted while `form_accepts_responses` is
+      true. The function runs as definer because respondents cannot count the
+      responses of a form; it only returns a boolean
+    - Answers keep their existing policy, so the answers of the response that
+      fills the cap can still be written
+
+  4. Notes
+    - Simultaneous submissions can each see room under the cap, so a form may
+      end a few responses over it
+*/
+
+ALTER TABLE forms ADD COLUMN IF NOT EXISTS opens_at timestamptz;
+ALTER TABLE forms ADD COLUMN IF NOT EXISTS closes_at timestamptz;
+ALTER TABLE forms ADD COLUMN IF NOT EXISTS max_responses integer;
+
+ALTER TABLE forms DROP CONSTRAINT IF EXISTS forms_schedule_check;
+ALTER TABLE forms ADD CONSTRAINT forms_schedule_check
+  CHECK (opens_at IS NULL OR closes_at IS NULL OR closes_at > opens_at);
+
+ALTER TABLE forms DROP CONSTRAINT IF EXISTS forms_max_responses_check;
+ALTER TABLE forms ADD CONSTRAINT forms_max_responses_check
+  CHECK (max_responses IS NULL OR max_responses > 0);
+
+CREATE OR REPLACE FUNCTION public.form_accepts_responses(p_form_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM forms f
+    WHERE f.id = p_form_id
+    AND f.is_active = true
+    AND f.archived_at IS NULL
+    AND f.deleted_at IS NULL
+    AND (f.opens_at IS NULL OR f.opens_at <= now())
+    AND (f.closes_at IS NULL OR f.closes_at > now())
+    AND (
+      f.max_responses IS NULL
+      OR (SELECT count(*) FROM responses r WHERE r.form_id = f.id) < f.max_responses
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Anonymous users can submit responses to active forms" ON responses;
+
+CREATE POLICY "Anonymous users can submit responses to active forms"
+  ON responses
+  FOR INSERT
+  TO anon
+  WITH CHECK (public.form_accepts_responses(form_id));
+
+CREATE OR REPLACE FUNCTION public.prevent_archived_form_changes()
+RETURNS trigger AS $$
+BEGIN
+  IF OLD.archived_at IS NOT NULL AND NEW.archived_at IS NOT NULL
+    AND (NEW.title, NEW.description, NEW.is_active, NEW.opens_at, NEW.closes_at, NEW.max_responses)
+      IS DISTINCT FROM (OLD.title, OLD.description, OLD.is_active, OLD.opens_at, OLD.closes_at, OLD.max_responses)
+  THEN
+    RAISE EXCEPTION 'Archived forms are read-only. Restore the form to edit it.';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
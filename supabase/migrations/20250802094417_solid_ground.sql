@@ -0,0 +1,255 @@
+/*
+  # Atomic Form Saves and Response Submission
+
+  1. New Functions
+    - `create_form_with_questions(p_form, p_questions)` - creates a form owned
+      by the caller with its questions and first version
+    - `update_form_with_questions(p_form_id, p_form, p_questions)` - saves a
+      form's details and its full question list: questions are updated by id or
+      inserted, live questions missing from the list are soft-deleted, and a
+      new version is snapshotted
+    - `submit_response(p_form_id, p_answers, p_is_complete, p_user_agent)` -
+      records a response and its answers, returning the new response id
+
+  2. Validation
+    - Forms need a title and at least one question; questions other than page
+      breaks need text, and choice questions need at least one option
+    - Answers must belong to live questions of the form, at most one per
+      question, with a value; choice answers must be options of the question
+
+  3. Notes
+    - Each function runs in a single transaction, so a failure leaves nothing
+      behind: no form without questions, no response without answers
+    - `p_form` is a json object with `title`, `description`, `is_active`,
+      `opens_at`, `closes_at` and `max_responses`; `p_questions` is an array of
+      question objects in display order, ids optional
+    - `p_answers` is an array of `{ question_id, answer_text, answer_options }`
+
+  4. Security
+    - The form functions run as invoker, so row level security applies
+    - `submit_response` runs as definer so it can lock the form and count its
+      responses. It checks `form_accepts_responses` itself, and the lock keeps
+      simultaneous submissions from going over a response cap
+*/
+
+-- Raises an error for the first problem that keeps a form from being saved
+CREATE OR REPLACE FUNCTION public.validate_form_definition(p_form jsonb, p_questions jsonb)
+RETURNS void AS $$
+DECLARE
+  v_question jsonb;
+  v_position integer := 0;
+BEGIN
+  IF nullif(btrim(p_form->>'title'), '') IS NULL THEN
+    RAISE EXCEPTION 'Form title is required' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF jsonb_typeof(p_questions) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Questions must be a list' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_questions) q
+    WHERE q->>'question_type' <> 'page_break'
+  ) THEN
+    RAISE EXCEPTION 'At least one question is required' USING ERRCODE = 'check_violation';
+  END IF;
+
+  FOR v_question IN SELECT * FROM jsonb_array_elements(p_questions) LOOP
+    CONTINUE WHEN v_question->>'question_type' = 'page_break';
+    v_position := v_position + 1;
+
+    IF nullif(btrim(v_question->>'question_text'), '') IS NULL THEN
+      RAISE EXCEPTION 'Question % text is required', v_position USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF v_question->>'question_type' IN ('multiple_choice', 'checkbox') AND NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements_text(COALESCE(v_question->'options', '[]'::jsonb)) o
+      WHERE btrim(o) <> ''
+    ) THEN
+      RAISE EXCEPTION 'Question % must have at least one option', v_position USING ERRCODE = 'check_violation';
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Question rows for a form from a json array, in array order
+CREATE OR REPLACE FUNCTION public.question_rows(p_form_id uuid, p_questions jsonb)
+RETURNS TABLE (
+  id uuid,
+  form_id uuid,
+  question_text text,
+  question_type text,
+  options jsonb,
+  is_required boolean,
+  order_index integer,
+  logic jsonb,
+  settings jsonb
+) AS $$
+  SELECT
+    COALESCE((q->>'id')::uuid, gen_random_uuid()),
+    p_form_id,
+    btrim(COALESCE(q->>'question_text', '')),
+    q->>'question_type',
+    CASE WHEN q->>'question_type' IN ('multiple_choice', 'checkbox')
+      THEN COALESCE(
+        (SELECT jsonb_agg(btrim(o)) FROM jsonb_array_elements_text(q->'options') o WHERE btrim(o) <> ''),
+        '[]'::jsonb
+      )
+      ELSE '[]'::jsonb
+    END,
+    COALESCE((q->>'is_required')::boolean, true),
+    (position - 1)::integer,
+    COALESCE(q->'logic', '{}'::jsonb),
+    COALESCE(q->'settings', '{}'::jsonb)
+  FROM jsonb_array_elements(p_questions) WITH ORDINALITY AS t(q, position);
+$$ LANGUAGE sql VOLATILE;
+
+CREATE OR REPLACE FUNCTION public.create_form_with_questions(p_form jsonb, p_questions jsonb)
+RETURNS forms AS $$
+DECLARE
+  v_form forms;
+BEGIN
+  PERFORM public.validate_form_definition(p_form, p_questions);
+
+  INSERT INTO forms (user_id, title, description, is_active, opens_at, closes_at, max_responses)
+  VALUES (
+    auth.uid(),
+    btrim(p_form->>'title'),
+    btrim(COALESCE(p_form->>'description', '')),
+    COALESCE((p_form->>'is_active')::boolean, true),
+    (p_form->>'opens_at')::timestamptz,
+    (p_form->>'closes_at')::timestamptz,
+    (p_form->>'max_responses')::integer
+  )
+  RETURNING * INTO v_form;
+
+  INSERT INTO questions (id, form_id, question_text, question_type, options, is_required, order_index, logic, settings)
+  SELECT id, form_id, question_text, question_type, options, is_required, order_index, logic, settings
+  FROM public.question_rows(v_form.id, p_questions);
+
+  PERFORM public.create_form_version(v_form.id);
+
+  RETURN v_form;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION public.update_form_with_questions(p_form_id uuid, p_form jsonb, p_questions jsonb)
+RETURNS forms AS $$
+DECLARE
+  v_form forms;
+BEGIN
+  PERFORM public.validate_form_definition(p_form, p_questions);
+
+  UPDATE forms SET
+    title = btrim(p_form->>'title'),
+    description = btrim(COALESCE(p_form->>'description', '')),
+    is_active = COALESCE((p_form->>'is_active')::boolean, true),
+    opens_at = (p_form->>'opens_at')::timestamptz,
+    closes_at = (p_form->>'closes_at')::timestamptz,
+    max_responses = (p_form->>'max_responses')::integer,
+    updated_at = now()
+  WHERE id = p_form_id
+  RETURNING * INTO v_form;
+
+  IF v_form.id IS NULL THEN
+    RAISE EXCEPTION 'Form not found or you do not have permission to edit it' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- Question ids are client generated, so make sure none belongs to another form
+  IF EXISTS (
+    SELECT 1 FROM public.question_rows(p_form_id, p_questions) r
+    JOIN questions q ON q.id = r.id
+    WHERE q.form_id <> p_form_id
+  ) THEN
+    RAISE EXCEPTION 'A question belongs to another form' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Soft-delete removed questions so historical responses keep their question text
+  UPDATE questions SET deleted_at = now()
+  WHERE form_id = p_form_id
+  AND deleted_at IS NULL
+  AND id NOT IN (SELECT r.id FROM public.question_rows(p_form_id, p_questions) r);
+
+  -- Existing questions are updated in place by id so their answers keep pointing at them
+  INSERT INTO questions (id, form_id, question_text, question_type, options, is_required, order_index, logic, settings)
+  SELECT id, form_id, question_text, question_type, options, is_required, order_index, logic, settings
+  FROM public.question_rows(p_form_id, p_questions)
+  ON CONFLICT (id) DO UPDATE SET
+    question_text = EXCLUDED.question_text,
+    question_type = EXCLUDED.question_type,
+    options = EXCLUDED.options,
+    is_required = EXCLUDED.is_required,
+    order_index = EXCLUDED.order_index,
+    logic = EXCLUDED.logic,
+    settings = EXCLUDED.settings,
+    deleted_at = NULL;
+
+  PERFORM public.create_form_version(p_form_id);
+
+  RETURN v_form;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION public.submit_response(
+  p_form_id uuid,
+  p_answers jsonb,
+  p_is_complete boolean DEFAULT true,
+  p_user_agent text DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_response_id uuid := gen_random_uuid();
+  v_problem text;
+BEGIN
+  -- Submissions to the same form wait for each other, so the response cap holds
+  PERFORM 1 FROM forms WHERE id = p_form_id FOR UPDATE;
+
+  IF NOT public.form_accepts_responses(p_form_id) THEN
+    RAISE EXCEPTION 'This form is not accepting responses' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF jsonb_typeof(p_answers) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Answers must be a list' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT CASE
+      WHEN q.id IS NULL OR q.question_type = 'page_break' THEN 'An answer is for a question that is not on this form'
+      WHEN count(*) OVER (PARTITION BY a->>'question_id') > 1 THEN format('"%s" was answered more than once', q.question_text)
+      WHEN nullif(btrim(a->>'answer_text'), '') IS NULL THEN format('"%s" has an empty answer', q.question_text)
+      WHEN q.question_type = 'multiple_choice' AND NOT q.options ? (a->>'answer_text')
+        THEN format('"%s" is not an option of "%s"', a->>'answer_text', q.question_text)
+      WHEN q.question_type = 'checkbox' AND (
+        jsonb_typeof(a->'answer_options') IS DISTINCT FROM 'array'
+        OR jsonb_array_length(a->'answer_options') = 0
+        OR NOT q.options @> (a->'answer_options')
+      ) THEN format('"%s" has a selection that is not one of its options', q.question_text)
+    END
+  INTO v_problem
+  FROM jsonb_array_elements(p_answers) a
+  LEFT JOIN questions q
+    ON q.id::text = a->>'question_id'
+    AND q.form_id = p_form_id
+    AND q.deleted_at IS NULL
+  ORDER BY 1 NULLS LAST
+  LIMIT 1;
+
+  IF v_problem IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_problem USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO responses (id, form_id, user_agent, is_complete)
+  VALUES (v_response_id, p_form_id, p_user_agent, COALESCE(p_is_complete, true));
+
+  INSERT INTO answers (response_id, question_id, answer_text, answer_options)
+  SELECT
+    v_response_id,
+    (a->>'question_id')::uuid,
+    btrim(a->>'answer_text'),
+    CASE WHEN jsonb_typeof(a->'answer_options') = 'array'
+      THEN ARRAY(SELECT jsonb_array_elements_text(a->'answer_options'))
+    END
+  FROM jsonb_array_elements(p_answers) a;
+
+  RETURN v_response_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,333 @@
+/*
+  # Server-side Answer Validation
+
+  1. New Functions
+    - `answer_problem(question, answer_text, answer_options)` - what is wrong
+      with a single answer for its question, or null when it is valid:
+      - page breaks cannot be answered and answers cannot be empty
+      - multiple choice answers must be one of the options
+      - checkbox answers must be options, within the selection limits
+      - rating and NPS answers must be a point on the question's scale
+    - `answer_matches_rule(answer, rule)` - the server side of the conditional
+      logic operators, for deciding which questions a respondent was shown
+    - `validate_response(p_form_id, p_answers)` - every problem with a set of
+      answers to a form as a json object of messages keyed by question id.
+      Beyond the per-answer checks it rejects questions from other forms and
+      repeated answers, and reports required questions that were shown but
+      not answered
+    - `submit_response(...)` reports those problems: the error message is a
+      summary and the error detail holds the json object
+
+  2. Changes
+    - Trigger on `answers` validates every inserted or updated row against its
+      question, and checks that the question belongs to the response's form,
+      so answers written directly or imported are held to the same rules
+
+  3. Security
+    - Anonymous respondents can no longer insert responses or answers
+      directly, so a response cannot skip required questions or be left
+      without its answers; every public submission goes through
+      `submit_response`
+
+  4. Notes
+    - Messages match the ones the public form shows, so respondents see the
+      same wording whichever side catches the problem
+*/
+
+CREATE OR REPLACE FUNCTION public.answer_problem(
+  p_question questions,
+  p_answer_text text,
+  p_answer_options text[]
+)
+RETURNS text AS $$
+DECLARE
+  v_count integer;
+  v_min numeric;
+  v_max numeric;
+  v_step numeric;
+  v_value numeric;
+  v_limit integer;
+BEGIN
+  IF p_question.question_type = 'page_break' THEN
+    RETURN 'Page breaks cannot be answered';
+  END IF;
+
+  IF p_question.question_type = 'checkbox' THEN
+    v_count := COALESCE(cardinality(p_answer_options), 0);
+    IF v_count = 0 THEN
+      RETURN 'This question is required';
+    END IF;
+    IF EXISTS (
+      SELECT 1 FROM unnest(p_answer_options) o
+      WHERE NOT p_question.options ? o
+    ) THEN
+      RETURN 'Choose from the listed options';
+    END IF;
+    IF v_count <> (SELECT count(DISTINCT o) FROM unnest(p_answer_options) o) THEN
+      RETURN 'Each option can only be selected once';
+    END IF;
+
+    v_limit := nullif(p_question.settings->>'min_selections', '')::integer;
+    IF v_limit IS NOT NULL AND v_limit > 0 AND v_count < v_limit THEN
+      RETURN format('Select at least %s option%s', v_limit, CASE WHEN v_limit = 1 THEN '' ELSE 's' END);
+    END IF;
+    v_limit := nullif(p_question.settings->>'max_selections', '')::integer;
+    IF v_limit IS NOT NULL AND v_limit > 0 AND v_count > v_limit THEN
+      RETURN format('Select at most %s option%s', v_limit, CASE WHEN v_limit = 1 THEN '' ELSE 's' END);
+    END IF;
+    RETURN NULL;
+  END IF;
+
+  IF nullif(btrim(p_answer_text), '') IS NULL THEN
+    RETURN 'This question is required';
+  END IF;
+
+  IF p_question.question_type = 'multiple_choice' THEN
+    IF NOT p_question.options ? p_answer_text THEN
+      RETURN 'Choose one of the listed options';
+    END IF;
+    RETURN NULL;
+  END IF;
+
+  IF p_question.question_type IN ('rating', 'nps') THEN
+    -- NPS questions always use the fixed 0–10 scale; ratings default to 1–5
+    IF p_question.question_type = 'nps' THEN
+      v_min := 0;
+      v_max := 10;
+      v_step := 1;
+    ELSE
+      v_min := COALESCE((p_question.settings->>'rating_min')::numeric, 1);
+      v_max := COALESCE((p_question.settings->>'rating_max')::numeric, 5);
+      v_step := COALESCE((p_question.settings->>'rating_step')::numeric, 1);
+      IF v_max <= v_min THEN v_max := v_min + 1; END IF;
+      IF v_step <= 0 THEN v_step := 1; END IF;
+    END IF;
+
+    IF btrim(p_answer_text) ~ '^-?[0-9]+(\.[0-9]+)?$' THEN
+      v_value := btrim(p_answer_text)::numeric;
+    END IF;
+
+    IF v_value IS NULL OR v_value < v_min OR v_value > v_max OR mod(v_value - v_min, v_step) <> 0 THEN
+      RETURN format(
+        'Choose a %s from %s to %s',
+        CASE WHEN p_question.question_type = 'nps' THEN 'score' ELSE 'rating' END,
+        trim_scale(v_min),
+        trim_scale(v_max)
+      );
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Mirrors matchesRule in the app. `p_answer` is an answer object with
+-- `answer_text` and `answer_options`, or null when the question was not answered.
+CREATE OR REPLACE FUNCTION public.answer_matches_rule(p_answer jsonb, p_rule jsonb)
+RETURNS boolean AS $$
+DECLARE
+  v_operator text := p_rule->>'operator';
+  v_expected text := lower(btrim(COALESCE(p_rule->>'value', '')));
+  v_actual text := lower(btrim(COALESCE(p_answer->>'answer_text', '')));
+  v_selected text[];
+  v_answered boolean;
+BEGIN
+  IF jsonb_typeof(p_answer->'answer_options') = 'array' THEN
+    v_selected := ARRAY(SELECT lower(o) FROM jsonb_array_elements_text(p_answer->'answer_options') o);
+    v_answered := cardinality(v_selected) > 0;
+  ELSE
+    v_answered := v_actual <> '';
+  END IF;
+
+  IF v_operator = 'is_answered' THEN
+    RETURN v_answered;
+  END IF;
+  -- Every other operator needs an answer to compare against
+  IF NOT v_answered THEN
+    RETURN false;
+  END IF;
+
+  -- Checkbox answers match when the expected option is among the selected ones
+  IF v_selected IS NOT NULL THEN
+    RETURN CASE v_operator
+      WHEN 'equals' THEN v_expected = ANY(v_selected)
+      WHEN 'contains' THEN v_expected = ANY(v_selected)
+      WHEN 'not_equals' THEN NOT v_expected = ANY(v_selected)
+      ELSE false
+    END;
+  END IF;
+
+  RETURN CASE v_operator
+    WHEN 'equals' THEN v_actual = v_expected
+    WHEN 'not_equals' THEN v_actual <> v_expected
+    WHEN 'contains' THEN position(v_expected IN v_actual) > 0
+    -- Compare the leading number of each side, as parseFloat does
+    WHEN 'less_than_or_equal' THEN
+      substring(v_actual FROM '^-?[0-9]*\.?[0-9]+')::numeric <= substring(v_expected FROM '^-?[0-9]*\.?[0-9]+')::numeric
+    WHEN 'greater_than_or_equal' THEN
+      substring(v_actual FROM '^-?[0-9]*\.?[0-9]+')::numeric >= substring(v_expected FROM '^-?[0-9]*\.?[0-9]+')::numeric
+    ELSE false
+  END IS TRUE;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.validate_response(p_form_id uuid, p_answers jsonb)
+RETURNS jsonb AS $$
+DECLARE
+  v_errors jsonb := '{}'::jsonb;
+  -- Answers by question id, for the logic conditions
+  v_answers jsonb := '{}'::jsonb;
+  v_visible text[] := ARRAY[]::text[];
+  v_answer jsonb;
+  v_question questions;
+  v_condition jsonb;
+  v_shown boolean;
+  v_problem text;
+BEGIN
+  FOR v_answer IN SELECT * FROM jsonb_array_elements(p_answers) LOOP
+    SELECT * INTO v_question FROM questions
+    WHERE id::text = v_answer->>'question_id'
+    AND form_id = p_form_id
+    AND deleted_at IS NULL;
+
+    IF NOT FOUND THEN
+      v_errors := v_errors || jsonb_build_object(COALESCE(v_answer->>'question_id', ''), 'This question is not on the form');
+      CONTINUE;
+    END IF;
+
+    IF v_answers ? v_question.id::text THEN
+      v_errors := v_errors || jsonb_build_object(v_question.id, 'This question was answered more than once');
+      CONTINUE;
+    END IF;
+    v_answers := v_answers || jsonb_build_object(v_question.id, v_answer);
+
+    v_problem := public.answer_problem(
+      v_question,
+      v_answer->>'answer_text',
+      CASE WHEN jsonb_typeof(v_answer->'answer_options') = 'array'
+        THEN ARRAY(SELECT jsonb_array_elements_text(v_answer->'answer_options'))
+      END
+    );
+    IF v_problem IS NOT NULL THEN
+      v_errors := v_errors || jsonb_build_object(v_question.id, v_problem);
+    END IF;
+  END LOOP;
+
+  -- Walk the questions in order as the public form does, so only required
+  -- questions the respondent was shown count as missing
+  FOR v_question IN
+    SELECT * FROM questions
+    WHERE form_id = p_form_id AND deleted_at IS NULL
+    ORDER BY order_index
+  LOOP
+    v_shown := true;
+    FOR v_condition IN SELECT * FROM jsonb_array_elements(COALESCE(v_question.logic->'show_if', '[]'::jsonb)) LOOP
+      IF NOT public.answer_matches_rule(
+        CASE WHEN v_condition->>'question_id' = ANY(v_visible) THEN v_answers->(v_condition->>'question_id') END,
+        v_condition
+      ) THEN
+        v_shown := false;
+        EXIT;
+      END IF;
+    END LOOP;
+    CONTINUE WHEN NOT v_shown;
+
+    v_visible := v_visible || v_question.id::text;
+
+    IF v_question.question_type <> 'page_break'
+      AND v_question.is_required
+      AND NOT v_errors ? v_question.id::text
+      AND NOT public.answer_matches_rule(v_answers->v_question.id::text, '{"operator": "is_answered"}')
+    THEN
+      v_errors := v_errors || jsonb_build_object(v_question.id, 'This question is required');
+    END IF;
+
+    EXIT WHEN jsonb_typeof(v_question.logic->'skip_to_end_if') = 'object'
+      AND public.answer_matches_rule(v_answers->v_question.id::text, v_question.logic->'skip_to_end_if');
+  END LOOP;
+
+  RETURN v_errors;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION public.submit_response(
+  p_form_id uuid,
+  p_answers jsonb,
+  p_is_complete boolean DEFAULT true,
+  p_user_agent text DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_response_id uuid := gen_random_uuid();
+  v_errors jsonb;
+BEGIN
+  -- Submissions to the same form wait for each other, so the response cap holds
+  PERFORM 1 FROM forms WHERE id = p_form_id FOR UPDATE;
+
+  IF NOT public.form_accepts_responses(p_form_id) THEN
+    RAISE EXCEPTION 'This form is not accepting responses' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF jsonb_typeof(p_answers) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Answers must be a list' USING ERRCODE = 'check_violation';
+  END IF;
+
+  v_errors := public.validate_response(p_form_id, p_answers);
+  IF v_errors <> '{}'::jsonb THEN
+    RAISE EXCEPTION 'Some answers are not valid'
+      USING ERRCODE = 'check_violation', DETAIL = v_errors::text;
+  END IF;
+
+  INSERT INTO responses (id, form_id, user_agent, is_complete)
+  VALUES (v_response_id, p_form_id, p_user_agent, COALESCE(p_is_complete, true));
+
+  INSERT INTO answers (response_id, question_id, answer_text, answer_options)
+  SELECT
+    v_response_id,
+    (a->>'question_id')::uuid,
+    btrim(a->>'answer_text'),
+    CASE WHEN jsonb_typeof(a->'answer_options') = 'array'
+      THEN ARRAY(SELECT jsonb_array_elements_text(a->'answer_options'))
+    END
+  FROM jsonb_array_elements(p_answers) a;
+
+  RETURN v_response_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Public submissions can only be made through submit_response
+DROP POLICY IF EXISTS "Anonymous users can submit responses to active forms" ON responses;
+DROP POLICY IF EXISTS "Anonymous users can submit answers" ON answers;
+
+-- Every answer row is checked against its question, however it is written.
+-- Runs as definer because respondents cannot read responses.
+CREATE OR REPLACE FUNCTION public.validate_answer()
+RETURNS trigger AS $$
+DECLARE
+  v_question questions;
+  v_problem text;
+BEGIN
+  SELECT q.* INTO v_question
+  FROM questions q
+  JOIN responses r ON r.form_id = q.form_id
+  WHERE q.id = NEW.question_id
+  AND r.id = NEW.response_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The question is not on the form of this response' USING ERRCODE = 'check_violation';
+  END IF;
+
+  v_problem := public.answer_problem(v_question, NEW.answer_text, NEW.answer_options);
+  IF v_problem IS NOT NULL THEN
+    RAISE EXCEPTION '%: %', v_question.question_text, v_problem
+      USING ERRCODE = 'check_violation', DETAIL = jsonb_build_object(v_question.id, v_problem)::text;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS validate_answer ON answers;
+CREATE TRIGGER validate_answer
+  BEFORE INSERT OR UPDATE ON answers
+  FOR EACH ROW EXECUTE FUNCTION public.validate_answer();
@@ -0,0 +1,369 @@
+/*
+  # Spam and Abuse Protection
+
+  1. Changes
+    - Add `is_spam`, `spam_reason` and `fingerprint` to `responses`
+
+  2. New Functions
+    - `request_ip()` - the client address of the current API request, taken
+      from the last `x-forwarded-for` entry, the one appended by the API
+      proxy, or null when it is missing or not an address
+    - `submit_response(...)` gains `p_fingerprint`, `p_honeypot` and
+      `p_elapsed_ms`:
+      - the client address is stored in `ip_address`
+      - at most 5 submissions per form are accepted from the same address, or
+        with the same fingerprint, in 10 minutes
+      - a filled honeypot field or a form completed in under 3 seconds is
+        stored as spam; the respondent still sees a successful submission
+
+  3. Security
+    - Owners can update and delete responses to their own forms, to clear a
+      spam flag or remove flagged responses
+
+  4. Notes
+    - Spam does not count toward a form's response cap, its summaries or
+      search results. It still counts toward the rate limit
+    - Earlier `x-forwarded-for` entries are set by the client and are ignored
+    - The fingerprint and elapsed time are reported by the client, so they
+      only catch careless bots. The limit applies to the address whatever
+      fingerprint is sent; the fingerprint only adds a second key
+*/
+
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS is_spam boolean NOT NULL DEFAULT false;
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS spam_reason text;
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS fingerprint text;
+
+CREATE INDEX IF NOT EXISTS idx_responses_form_ip ON responses(form_id, ip_address, submitted_at DESC);
+CREATE INDEX IF NOT EXISTS idx_responses_form_fingerprint ON responses(form_id, fingerprint, submitted_at DESC);
+
+CREATE POLICY "Users can update responses to own forms"
+  ON responses
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM forms
+      WHERE forms.id = responses.form_id
+      AND forms.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete responses to own forms"
+  ON responses
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM forms
+      WHERE forms.id = responses.form_id
+      AND forms.user_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.request_ip()
+RETURNS inet AS $$
+DECLARE
+  v_hops text[] := string_to_array(current_setting('request.headers', true)::json->>'x-forwarded-for', ',');
+BEGIN
+  -- The proxy appends the address it saw; anything before it came from the client
+  RETURN btrim(v_hops[array_upper(v_hops, 1)])::inet;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION public.form_accepts_responses(p_form_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM forms f
+    WHERE f.id = p_form_id
+    AND f.is_active = true
+    AND f.archived_at IS NULL
+    AND f.deleted_at IS NULL
+    AND (f.opens_at IS NULL OR f.opens_at <= now())
+    AND (f.closes_at IS NULL OR f.closes_at > now())
+    AND (
+      f.max_responses IS NULL
+      OR (SELECT count(*) FROM responses r WHERE r.form_id = f.id AND NOT r.is_spam) < f.max_responses
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP FUNCTION IF EXISTS public.submit_response(uuid, jsonb, boolean, text);
+
+CREATE OR REPLACE FUNCTION public.submit_response(
+  p_form_id uuid,
+  p_answers jsonb,
+  p_is_complete boolean DEFAULT true,
+  p_user_agent text DEFAULT NULL,
+  p_fingerprint text DEFAULT NULL,
+  p_honeypot text DEFAULT NULL,
+  p_elapsed_ms integer DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_response_id uuid := gen_random_uuid();
+  v_ip inet := public.request_ip();
+  v_fingerprint text := nullif(btrim(p_fingerprint), '');
+  v_errors jsonb;
+  v_spam_reason text;
+BEGIN
+  -- Submissions to the same form wait for each other, so the response cap holds
+  PERFORM 1 FROM forms WHERE id = p_form_id FOR UPDATE;
+
+  IF NOT public.form_accepts_responses(p_form_id) THEN
+    RAISE EXCEPTION 'This form is not accepting responses' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF (v_ip IS NOT NULL OR v_fingerprint IS NOT NULL) AND (
+    SELECT count(*) FROM responses r
+    WHERE r.form_id = p_form_id
+    AND r.submitted_at > now() - interval '10 minutes'
+    -- The fingerprint comes from the client, so it can only add to the address
+    AND (r.ip_address = v_ip OR r.fingerprint = v_fingerprint)
+  ) >= 5 THEN
+    RAISE EXCEPTION 'Too many submissions, please try again later' USING ERRCODE = 'program_limit_exceeded';
+  END IF;
+
+  IF jsonb_typeof(p_answers) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Answers must be a list' USING ERRCODE = 'check_violation';
+  END IF;
+
+  v_errors := public.validate_response(p_form_id, p_answers);
+  IF v_errors <> '{}'::jsonb THEN
+    RAISE EXCEPTION 'Some answers are not valid'
+      USING ERRCODE = 'check_violation', DETAIL = v_errors::text;
+  END IF;
+
+  -- Flagged responses are kept for the owner to review, and the submitter is not told
+  v_spam_reason := CASE
+    WHEN nullif(btrim(p_honeypot), '') IS NOT NULL THEN 'Hidden field was filled in'
+    WHEN p_elapsed_ms IS NULL OR p_elapsed_ms < 3000 THEN 'Completed too quickly'
+  END;
+
+  INSERT INTO responses (id, form_id, user_agent, is_complete, ip_address, fingerprint, is_spam, spam_reason)
+  VALUES (
+    v_response_id,
+    p_form_id,
+    p_user_agent,
+    COALESCE(p_is_complete, true),
+    v_ip,
+    v_fingerprint,
+    v_spam_reason IS NOT NULL,
+    v_spam_reason
+  );
+
+  INSERT INTO answers (response_id, question_id, answer_text, answer_options)
+  SELECT
+    v_response_id,
+    (a->>'question_id')::uuid,
+    btrim(a->>'answer_text'),
+    CASE WHEN jsonb_typeof(a->'answer_options') = 'array'
+      THEN ARRAY(SELECT jsonb_array_elements_text(a->'answer_options'))
+    END
+  FROM jsonb_array_elements(p_answers) a;
+
+  RETURN v_response_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Summaries and search leave spam out
+CREATE OR REPLACE FUNCTION public.get_form_response_counts()
+RETURNS TABLE (
+  form_id uuid,
+  title text,
+  is_active boolean,
+  created_at timestamptz,
+  response_count bigint,
+  last_response_at timestamptz
+) AS $$
+  SELECT f.id, f.title, f.is_active, f.created_at, count(r.id), max(r.submitted_at)
+  FROM forms f
+  LEFT JOIN responses r ON r.form_id = f.id AND NOT r.is_spam
+  WHERE f.user_id = auth.uid()
+  AND f.archived_at IS NULL
+  AND f.deleted_at IS NULL
+  GROUP BY f.id
+  ORDER BY f.created_at DESC;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.get_daily_response_counts(
+  p_days integer DEFAULT 30,
+  p_form_id uuid DEFAULT NULL
+)
+RETURNS TABLE (day date, response_count bigint) AS $$
+  WITH bounds AS (
+    SELECT (now() AT TIME ZONE 'UTC')::date - (GREATEST(p_days, 1) - 1) AS first_day
+  ),
+  counts AS (
+    SELECT (r.submitted_at AT TIME ZONE 'UTC')::date AS day, count(*) AS response_count
+    FROM responses r
+    JOIN forms f ON f.id = r.form_id
+    WHERE f.user_id = auth.uid()
+    AND f.deleted_at IS NULL
+    AND (p_form_id IS NOT NULL OR f.archived_at IS NULL)
+    AND NOT r.is_spam
+    AND (p_form_id IS NULL OR r.form_id = p_form_id)
+    AND r.submitted_at >= (SELECT first_day FROM bounds)::timestamp AT TIME ZONE 'UTC'
+    GROUP BY 1
+  )
+  SELECT d.day::date, COALESCE(c.response_count, 0)
+  FROM bounds
+  CROSS JOIN generate_series(bounds.first_day, (now() AT TIME ZONE 'UTC')::date, interval '1 day') AS d(day)
+  LEFT JOIN counts c ON c.day = d.day::date
+  ORDER BY 1;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.get_answer_distribution(p_form_id uuid DEFAULT NULL)
+RETURNS TABLE (
+  question_id uuid,
+  form_version_id uuid,
+  question_type text,
+  settings jsonb,
+  value text,
+  answer_count bigint,
+  answers_total bigint
+) AS $$
+  WITH scoped AS (
+    SELECT a.question_id, r.form_version_id, q.question_type, q.settings, a.answer_text, a.answer_options
+    FROM answers a
+    JOIN responses r ON r.id = a.response_id
+    JOIN questions q ON q.id = a.question_id
+    JOIN forms f ON f.id = q.form_id
+    WHERE f.user_id = auth.uid()
+    AND f.deleted_at IS NULL
+    AND (p_form_id IS NOT NULL OR f.archived_at IS NULL)
+    AND NOT r.is_spam
+    AND (p_form_id IS NULL OR f.id = p_form_id)
+  ),
+  totals AS (
+    SELECT s.question_id, s.form_version_id, count(*) AS answers_total
+    FROM scoped s
+    GROUP BY 1, 2
+  )
+  SELECT s.question_id, s.form_version_id, s.question_type, s.settings, v.value, count(*), t.answers_total
+  FROM scoped s
+  CROSS JOIN LATERAL unnest(
+    CASE
+      WHEN s.question_type = 'checkbox' THEN s.answer_options
+      -- Free text is only counted; see get_latest_text_answers for the values
+      WHEN s.question_type = 'text' THEN ARRAY[NULL::text]
+      ELSE ARRAY[s.answer_text]
+    END
+  ) AS v(value)
+  JOIN totals t
+    ON t.question_id = s.question_id
+    AND t.form_version_id IS NOT DISTINCT FROM s.form_version_id
+  GROUP BY s.question_id, s.form_version_id, s.question_type, s.settings, v.value, t.answers_total;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.get_monthly_answer_distribution(
+  p_question_type text,
+  p_form_id uuid DEFAULT NULL
+)
+RETURNS TABLE (question_id uuid, form_version_id uuid, month text, value text, answer_count bigint) AS $$
+  SELECT
+    a.question_id,
+    r.form_version_id,
+    to_char(r.submitted_at AT TIME ZONE 'UTC', 'YYYY-MM'),
+    a.answer_text,
+    count(*)
+  FROM answers a
+  JOIN responses r ON r.id = a.response_id
+  JOIN questions q ON q.id = a.question_id
+  JOIN forms f ON f.id = q.form_id
+  WHERE f.user_id = auth.uid()
+  AND f.deleted_at IS NULL
+  AND (p_form_id IS NOT NULL OR f.archived_at IS NULL)
+  AND NOT r.is_spam
+  AND q.question_type = p_question_type
+  AND (p_form_id IS NULL OR f.id = p_form_id)
+  GROUP BY 1, 2, 3, 4
+  ORDER BY 3;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.get_version_response_counts(p_form_id uuid)
+RETURNS TABLE (form_version_id uuid, response_count bigint) AS $$
+  SELECT r.form_version_id, count(*)
+  FROM responses r
+  JOIN forms f ON f.id = r.form_id
+  WHERE f.user_id = auth.uid()
+  AND f.deleted_at IS NULL
+  AND r.form_id = p_form_id
+  AND NOT r.is_spam
+  GROUP BY 1;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.get_latest_text_answers(p_form_id uuid, p_limit integer DEFAULT 100)
+RETURNS TABLE (question_id uuid, form_version_id uuid, answer_text text, submitted_at timestamptz) AS $$
+  SELECT ranked.question_id, ranked.form_version_id, ranked.answer_text, ranked.submitted_at
+  FROM (
+    SELECT
+      a.question_id,
+      r.form_version_id,
+      a.answer_text,
+      r.submitted_at,
+      row_number() OVER (PARTITION BY a.question_id ORDER BY r.submitted_at DESC, r.id DESC) AS position
+    FROM answers a
+    JOIN responses r ON r.id = a.response_id
+    JOIN questions q ON q.id = a.question_id
+    JOIN forms f ON f.id = q.form_id
+    WHERE f.user_id = auth.uid()
+    AND f.deleted_at IS NULL
+    AND f.id = p_form_id
+    AND NOT r.is_spam
+    AND q.question_type = 'text'
+    AND btrim(a.answer_text) <> ''
+  ) ranked
+  WHERE ranked.position <= p_limit
+  ORDER BY ranked.question_id, ranked.submitted_at DESC;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.search_responses(
+  p_form_id uuid DEFAULT NULL,
+  p_query text DEFAULT NULL,
+  p_submitted_after timestamptz DEFAULT NULL,
+  p_submitted_before timestamptz DEFAULT NULL,
+  p_question_id uuid DEFAULT NULL,
+  p_value text DEFAULT NULL,
+  p_rating_min numeric DEFAULT NULL,
+  p_rating_max numeric DEFAULT NULL,
+  p_is_complete boolean DEFAULT NULL
+)
+RETURNS SETOF responses AS $$
+  SELECT r.*
+  FROM responses r
+  JOIN forms f ON f.id = r.form_id
+  WHERE f.user_id = auth.uid()
+  AND f.deleted_at IS NULL
+  AND NOT r.is_spam
+  AND (p_form_id IS NULL OR r.form_id = p_form_id)
+  AND (p_submitted_after IS NULL OR r.submitted_at >= p_submitted_after)
+  AND (p_submitted_before IS NULL OR r.submitted_at < p_submitted_before)
+  AND (p_is_complete IS NULL OR r.is_complete = p_is_complete)
+  AND (nullif(btrim(p_query), '') IS NULL OR EXISTS (
+    SELECT 1 FROM answers a
+    WHERE a.response_id = r.id
+    AND a.search_vector @@ websearch_to_tsquery('english', p_query)
+  ))
+  AND (p_question_id IS NULL OR p_value IS NULL OR EXISTS (
+    SELECT 1 FROM answers a
+    WHERE a.response_id = r.id
+    AND a.question_id = p_question_id
+    AND (a.answer_text = p_value OR p_value = ANY(a.answer_options))
+  ))
+  AND ((p_rating_min IS NULL AND p_rating_max IS NULL) OR EXISTS (
+    SELECT 1
+    FROM answers a
+    JOIN questions q ON q.id = a.question_id
+    -- Only numeric answers are compared; the CASE keeps the cast from seeing anything else
+    CROSS JOIN LATERAL (
+      SELECT CASE WHEN a.answer_text ~ '^-?[0-9]+(\.[0-9]+)?$' THEN a.answer_text::numeric END AS rating
+    ) v
+    WHERE a.response_id = r.id
+    AND (CASE WHEN p_question_id IS NULL THEN q.question_type IN ('rating', 'nps') ELSE q.id = p_question_id END)
+    AND v.rating IS NOT NULL
+    AND (p_rating_min IS NULL OR v.rating >= p_rating_min)
+    AND (p_rating_max IS NULL OR v.rating <= p_rating_max)
+  ));
+$$ LANGUAGE sql STABLE;
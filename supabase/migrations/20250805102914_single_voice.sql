@@ -0,0 +1,400 @@
+/*
+  # One Response per Respondent
+
+  1. Changes
+    - Add `response_limit` to `forms`: 'none', or one response per 'browser',
+      per verified 'email' address or per signed in 'user'
+    - Add `allow_response_edits` to `forms`: respondents who already answered
+      replace their earlier answers instead of being turned away
+    - Add `respondent_key` and `updated_at` to `responses`. The key identifies
+      the respondent under the form's limit and is unique per form
+
+  2. New Functions
+    - `form_is_open(p_form_id)` - whether a form is active, not archived or
+      trashed and inside its schedule; `form_accepts_responses` adds the cap
+    - `respondent_key(p_form_id, p_respondent_token)` - the key of the current
+      respondent, or null when the form has no limit. Browser tokens are
+      stored hashed; emails must be verified
+    - `get_own_response(p_form_id, p_respondent_token)` - the current
+      respondent's earlier response, with its answers when edits are allowed
+    - `submit_response(...)` gains `p_respondent_token` and rejects a second
+      response, or replaces the answers of the first when edits are allowed
+    - `insert_response_answers(p_response_id, p_answers)` - writes a list of
+      submitted answers to a response
+
+  3. Security
+    - Signed in respondents can read live forms and their questions, like
+      anonymous ones, since the 'email' and 'user' limits sign them in
+
+  4. Notes
+    - Editing an earlier response works at the response cap, since it does
+      not add a response
+*/
+
+ALTER TABLE forms ADD COLUMN IF NOT EXISTS response_limit text NOT NULL DEFAULT 'none';
+ALTER TABLE forms ADD COLUMN IF NOT EXISTS allow_response_edits boolean NOT NULL DEFAULT false;
+
+ALTER TABLE forms DROP CONSTRAINT IF EXISTS forms_response_limit_check;
+ALTER TABLE forms ADD CONSTRAINT forms_response_limit_check
+  CHECK (response_limit IN ('none', 'browser', 'email', 'user'));
+
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS respondent_key text;
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS updated_at timestamptz;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_responses_form_respondent
+  ON responses(form_id, respondent_key)
+  WHERE respondent_key IS NOT NULL;
+
+-- Respondents stay signed in after verifying their email or signing in
+CREATE POLICY "Signed in users can read active forms"
+  ON forms
+  FOR SELECT
+  TO authenticated
+  USING (is_active = true AND archived_at IS NULL AND deleted_at IS NULL);
+
+CREATE POLICY "Signed in users can read questions for active forms"
+  ON questions
+  FOR SELECT
+  TO authenticated
+  USING (
+    deleted_at IS NULL
+    AND EXISTS (
+      SELECT 1 FROM forms
+      WHERE forms.id = questions.form_id
+      AND forms.is_active = true
+      AND forms.archived_at IS NULL
+      AND forms.deleted_at IS NULL
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.form_is_open(p_form_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM forms f
+    WHERE f.id = p_form_id
+    AND f.is_active = true
+    AND f.archived_at IS NULL
+    AND f.deleted_at IS NULL
+    AND (f.opens_at IS NULL OR f.opens_at <= now())
+    AND (f.closes_at IS NULL OR f.closes_at > now())
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.form_accepts_responses(p_form_id uuid)
+RETURNS boolean AS $$
+  SELECT public.form_is_open(p_form_id) AND EXISTS (
+    SELECT 1 FROM forms f
+    WHERE f.id = p_form_id
+    AND (
+      f.max_responses IS NULL
+      OR (SELECT count(*) FROM responses r WHERE r.form_id = f.id AND NOT r.is_spam) < f.max_responses
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Reads auth.users to check that the respondent's email is verified
+CREATE OR REPLACE FUNCTION public.respondent_key(p_form_id uuid, p_respondent_token text DEFAULT NULL)
+RETURNS text AS $$
+DECLARE
+  v_limit text;
+  v_email text;
+BEGIN
+  SELECT response_limit INTO v_limit FROM forms WHERE id = p_form_id;
+
+  IF v_limit = 'browser' THEN
+    IF nullif(btrim(p_respondent_token), '') IS NULL THEN
+      RAISE EXCEPTION 'A respondent token is required for this form' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    RETURN 'browser:' || encode(sha256(convert_to(btrim(p_respondent_token), 'UTF8')), 'hex');
+  ELSIF v_limit = 'email' THEN
+    SELECT lower(email) INTO v_email
+    FROM auth.users
+    WHERE id = auth.uid()
+    AND email_confirmed_at IS NOT NULL;
+
+    IF v_email IS NULL THEN
+      RAISE EXCEPTION 'Verify your email address to respond to this form' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    RETURN 'email:' || v_email;
+  ELSIF v_limit = 'user' THEN
+    IF auth.uid() IS NULL THEN
+      RAISE EXCEPTION 'Sign in to respond to this form' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    RETURN 'user:' || auth.uid();
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Respondents cannot read responses, so their own comes through here
+CREATE OR REPLACE FUNCTION public.get_own_response(p_form_id uuid, p_respondent_token text DEFAULT NULL)
+RETURNS jsonb AS $$
+DECLARE
+  v_form forms;
+  v_key text;
+  v_response responses;
+BEGIN
+  SELECT * INTO v_form FROM forms WHERE id = p_form_id;
+  IF v_form.id IS NULL OR v_form.response_limit = 'none' THEN
+    RETURN NULL;
+  END IF;
+
+  BEGIN
+    v_key := public.respondent_key(p_form_id, p_respondent_token);
+  EXCEPTION WHEN insufficient_privilege THEN
+    -- Not identified yet, so there is nothing to find
+    RETURN NULL;
+  END;
+
+  SELECT * INTO v_response FROM responses WHERE form_id = p_form_id AND respondent_key = v_key;
+  IF v_response.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'id', v_response.id,
+    'submitted_at', v_response.submitted_at,
+    'updated_at', v_response.updated_at,
+    'can_edit', v_form.allow_response_edits,
+    'answers', CASE WHEN v_form.allow_response_edits THEN (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'question_id', a.question_id,
+        'answer_text', a.answer_text,
+        'answer_options', to_jsonb(a.answer_options)
+      )), '[]'::jsonb)
+      FROM answers a
+      WHERE a.response_id = v_response.id
+    ) ELSE '[]'::jsonb END
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.insert_response_answers(p_response_id uuid, p_answers jsonb)
+RETURNS void AS $$
+  INSERT INTO answers (response_id, question_id, answer_text, answer_options)
+  SELECT
+    p_response_id,
+    (a->>'question_id')::uuid,
+    btrim(a->>'answer_text'),
+    CASE WHEN jsonb_typeof(a->'answer_options') = 'array'
+      THEN ARRAY(SELECT jsonb_array_elements_text(a->'answer_options'))
+    END
+  FROM jsonb_array_elements(p_answers) a;
+$$ LANGUAGE sql VOLATILE;
+
+DROP FUNCTION IF EXISTS public.submit_response(uuid, jsonb, boolean, text, text, text, integer);
+
+CREATE OR REPLACE FUNCTION public.submit_response(
+  p_form_id uuid,
+  p_answers jsonb,
+  p_is_complete boolean DEFAULT true,
+  p_user_agent text DEFAULT NULL,
+  p_fingerprint text DEFAULT NULL,
+  p_honeypot text DEFAULT NULL,
+  p_elapsed_ms integer DEFAULT NULL,
+  p_respondent_token text DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_response_id uuid := gen_random_uuid();
+  v_ip inet := public.request_ip();
+  v_fingerprint text := nullif(btrim(p_fingerprint), '');
+  v_key text;
+  v_existing responses;
+  v_errors jsonb;
+  v_spam_reason text;
+BEGIN
+  -- Submissions to the same form wait for each other, so the response cap holds
+  PERFORM 1 FROM forms WHERE id = p_form_id FOR UPDATE;
+
+  IF NOT public.form_is_open(p_form_id) THEN
+    RAISE EXCEPTION 'This form is not accepting responses' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  v_key := public.respondent_key(p_form_id, p_respondent_token);
+  IF v_key IS NOT NULL THEN
+    SELECT * INTO v_existing FROM responses WHERE form_id = p_form_id AND respondent_key = v_key;
+  END IF;
+
+  IF v_existing.id IS NOT NULL
+    AND NOT (SELECT allow_response_edits FROM forms WHERE id = p_form_id)
+  THEN
+    RAISE EXCEPTION 'You have already responded to this form' USING ERRCODE = 'unique_violation';
+  END IF;
+
+  IF v_existing.id IS NULL AND NOT public.form_accepts_responses(p_form_id) THEN
+    RAISE EXCEPTION 'This form is not accepting responses' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF (v_ip IS NOT NULL OR v_fingerprint IS NOT NULL) AND (
+    SELECT count(*) FROM responses r
+    WHERE r.form_id = p_form_id
+    AND COALESCE(r.updated_at, r.submitted_at) > now() - interval '10 minutes'
+    -- The fingerprint comes from the client, so it can only add to the address
+    AND (r.ip_address = v_ip OR r.fingerprint = v_fingerprint)
+  ) >= 5 THEN
+    RAISE EXCEPTION 'Too many submissions, please try again later' USING ERRCODE = 'program_limit_exceeded';
+  END IF;
+
+  IF jsonb_typeof(p_answers) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Answers must be a list' USING ERRCODE = 'check_violation';
+  END IF;
+
+  v_errors := public.validate_response(p_form_id, p_answers);
+  IF v_errors <> '{}'::jsonb THEN
+    RAISE EXCEPTION 'Some answers are not valid'
+      USING ERRCODE = 'check_violation', DETAIL = v_errors::text;
+  END IF;
+
+  -- An edit replaces the earlier answers to live questions and keeps the
+  -- original submission time
+  IF v_existing.id IS NOT NULL THEN
+    DELETE FROM answers a
+    USING questions q
+    WHERE a.response_id = v_existing.id
+    AND q.id = a.question_id
+    AND q.deleted_at IS NULL;
+    PERFORM public.insert_response_answers(v_existing.id, p_answers);
+
+    UPDATE responses SET
+      is_complete = COALESCE(p_is_complete, true),
+      user_agent = p_user_agent,
+      updated_at = now()
+    WHERE id = v_existing.id;
+
+    RETURN v_existing.id;
+  END IF;
+
+  -- Flagged responses are kept for the owner to review, and the submitter is not told
+  v_spam_reason := CASE
+    WHEN nullif(btrim(p_honeypot), '') IS NOT NULL THEN 'Hidden field was filled in'
+    WHEN p_elapsed_ms IS NULL OR p_elapsed_ms < 3000 THEN 'Completed too quickly'
+  END;
+
+  INSERT INTO responses (id, form_id, user_agent, is_complete, ip_address, fingerprint, is_spam, spam_reason, respondent_key)
+  VALUES (
+    v_response_id,
+    p_form_id,
+    p_user_agent,
+    COALESCE(p_is_complete, true),
+    v_ip,
+    v_fingerprint,
+    v_spam_reason IS NOT NULL,
+    v_spam_reason,
+    v_key
+  );
+
+  PERFORM public.insert_response_answers(v_response_id, p_answers);
+
+  RETURN v_response_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.create_form_with_questions(p_form jsonb, p_questions jsonb)
+RETURNS forms AS $$
+DECLARE
+  v_form forms;
+BEGIN
+  PERFORM public.validate_form_definition(p_form, p_questions);
+
+  INSERT INTO forms (
+    user_id, title, description, is_active, opens_at, closes_at, max_responses,
+    response_limit, allow_response_edits
+  )
+  VALUES (
+    auth.uid(),
+    btrim(p_form->>'title'),
+    btrim(COALESCE(p_form->>'description', '')),
+    COALESCE((p_form->>'is_active')::boolean, true),
+    (p_form->>'opens_at')::timestamptz,
+    (p_form->>'closes_at')::timestamptz,
+    (p_form->>'max_responses')::integer,
+    COALESCE(p_form->>'response_limit', 'none'),
+    COALESCE((p_form->>'allow_response_edits')::boolean, false)
+  )
+  RETURNING * INTO v_form;
+
+  INSERT INTO questions (id, form_id, question_text, question_type, options, is_required, order_index, logic, settings)
+  SELECT id, form_id, question_text, question_type, options, is_required, order_index, logic, settings
+  FROM public.question_rows(v_form.id, p_questions);
+
+  PERFORM public.create_form_version(v_form.id);
+
+  RETURN v_form;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION public.update_form_with_questions(p_form_id uuid, p_form jsonb, p_questions jsonb)
+RETURNS forms AS $$
+DECLARE
+  v_form forms;
+BEGIN
+  PERFORM public.validate_form_definition(p_form, p_questions);
+
+  UPDATE forms SET
+    title = btrim(p_form->>'title'),
+    description = btrim(COALESCE(p_form->>'description', '')),
+    is_active = COALESCE((p_form->>'is_active')::boolean, true),
+    opens_at = (p_form->>'opens_at')::timestamptz,
+    closes_at = (p_form->>'closes_at')::timestamptz,
+    max_responses = (p_form->>'max_responses')::integer,
+    response_limit = COALESCE(p_form->>'response_limit', 'none'),
+    allow_response_edits = COALESCE((p_form->>'allow_response_edits')::boolean, false),
+    updated_at = now()
+  WHERE id = p_form_id
+  RETURNING * INTO v_form;
+
+  IF v_form.id IS NULL THEN
+    RAISE EXCEPTION 'Form not found or you do not have permission to edit it' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- Question ids are client generated, so make sure none belongs to another form
+  IF EXISTS (
+    SELECT 1 FROM public.question_rows(p_form_id, p_questions) r
+    JOIN questions q ON q.id = r.id
+    WHERE q.form_id <> p_form_id
+  ) THEN
+    RAISE EXCEPTION 'A question belongs to another form' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Soft-delete removed questions so historical responses keep their question text
+  UPDATE questions SET deleted_at = now()
+  WHERE form_id = p_form_id
+  AND deleted_at IS NULL
+  AND id NOT IN (SELECT r.id FROM public.question_rows(p_form_id, p_questions) r);
+
+  -- Existing questions are updated in place by id so their answers keep pointing at them
+  INSERT INTO questions (id, form_id, question_text, question_type, options, is_required, order_index, logic, settings)
+  SELECT id, form_id, question_text, question_type, options, is_required, order_index, logic, settings
+  FROM public.question_rows(p_form_id, p_questions)
+  ON CONFLICT (id) DO UPDATE SET
+    question_text = EXCLUDED.question_text,
+    question_type = EXCLUDED.question_type,
+    options = EXCLUDED.options,
+    is_required = EXCLUDED.is_required,
+    order_index = EXCLUDED.order_index,
+    logic = EXCLUDED.logic,
+    settings = EXCLUDED.settings,
+    deleted_at = NULL;
+
+  PERFORM public.create_form_version(p_form_id);
+
+  RETURN v_form;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION public.prevent_archived_form_changes()
+RETURNS trigger AS $$
+BEGIN
+  IF OLD.archived_at IS NOT NULL AND NEW.archived_at IS NOT NULL
+    AND (NEW.title, NEW.description, NEW.is_active, NEW.opens_at, NEW.closes_at, NEW.max_responses,
+      NEW.response_limit, NEW.allow_response_edits)
+      IS DISTINCT FROM (OLD.title, OLD.description, OLD.is_active, OLD.opens_at, OLD.closes_at, OLD.max_responses,
+      OLD.response_limit, OLD.allow_response_edits)
+  THEN
+    RAISE EXCEPTION 'Archived forms are read-only. Restore the form to edit it.';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,254 @@
+/*
+  # Respondent Edit Links
+
+  1. New Tables
+    - `answer_revisions` - the previous value of every answer a respondent
+      changed, added or cleared when editing their response. A null
+      `answer_text` means the question had no answer before the edit
+
+  2. Changes
+    - Add `edit_token_hash` to `responses`. The token itself is only handed
+      to the respondent, as part of their private edit link
+    - `allow_response_edits` now applies to every form: with a response
+      limit the respondent is recognised again, without one they use the link
+
+  3. New Functions
+    - `replace_response_answers(p_response_id, p_answers)` - records the
+      previous values of changed answers, then writes the new answers.
+      Answers to questions removed from the form are kept as they were
+    - `get_response_for_edit(p_form_id, p_edit_token)` - the response behind
+      an edit link, with its answers
+    - `submit_response(...)` gains `p_edit_token` to edit the response behind
+      a link, and returns the response id with a new edit token when the form
+      allows edits. Each submission replaces the previous token
+
+  4. Security
+    - Owners can read the revisions of responses to their own forms.
+      Revisions are only written by `submit_response`
+*/
+
+CREATE TABLE IF NOT EXISTS answer_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  response_id uuid REFERENCES responses(id) ON DELETE CASCADE NOT NULL,
+  question_id uuid REFERENCES questions(id) ON DELETE CASCADE NOT NULL,
+  answer_text text,
+  answer_options text[],
+  revised_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_answer_revisions_response_id ON answer_revisions(response_id, revised_at DESC);
+
+ALTER TABLE answer_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read answer revisions of own forms"
+  ON answer_revisions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM responses r
+      JOIN forms f ON f.id = r.form_id
+      WHERE r.id = answer_revisions.response_id
+      AND f.user_id = auth.uid()
+    )
+  );
+
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS edit_token_hash text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_responses_edit_token_hash
+  ON responses(edit_token_hash)
+  WHERE edit_token_hash IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.replace_response_answers(p_response_id uuid, p_answers jsonb)
+RETURNS void AS $$
+BEGIN
+  -- Only live questions are on the form being edited
+  WITH previous AS (
+    SELECT a.question_id, a.answer_text, a.answer_options
+    FROM answers a
+    JOIN questions q ON q.id = a.question_id
+    WHERE a.response_id = p_response_id
+    AND q.deleted_at IS NULL
+  ),
+  next AS (
+    SELECT
+      (a->>'question_id')::uuid AS question_id,
+      btrim(a->>'answer_text') AS answer_text,
+      CASE WHEN jsonb_typeof(a->'answer_options') = 'array'
+        THEN ARRAY(SELECT jsonb_array_elements_text(a->'answer_options'))
+      END AS answer_options
+    FROM jsonb_array_elements(p_answers) a
+  )
+  INSERT INTO answer_revisions (response_id, question_id, answer_text, answer_options)
+  SELECT p_response_id, COALESCE(p.question_id, n.question_id), p.answer_text, p.answer_options
+  FROM previous p
+  FULL JOIN next n ON n.question_id = p.question_id
+  WHERE (p.answer_text, p.answer_options) IS DISTINCT FROM (n.answer_text, n.answer_options);
+
+  DELETE FROM answers a
+  USING questions q
+  WHERE a.response_id = p_response_id
+  AND q.id = a.question_id
+  AND q.deleted_at IS NULL;
+  PERFORM public.insert_response_answers(p_response_id, p_answers);
+END;
+$$ LANGUAGE plpgsql VOLATILE;
+
+-- Respondents cannot read responses, so the one behind their link comes through here
+CREATE OR REPLACE FUNCTION public.get_response_for_edit(p_form_id uuid, p_edit_token text)
+RETURNS jsonb AS $$
+DECLARE
+  v_response responses;
+BEGIN
+  SELECT r.* INTO v_response
+  FROM responses r
+  JOIN forms f ON f.id = r.form_id
+  WHERE r.form_id = p_form_id
+  AND f.allow_response_edits
+  AND r.edit_token_hash = encode(sha256(convert_to(btrim(p_edit_token), 'UTF8')), 'hex');
+
+  IF v_response.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'id', v_response.id,
+    'submitted_at', v_response.submitted_at,
+    'updated_at', v_response.updated_at,
+    'can_edit', true,
+    'answers', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'question_id', a.question_id,
+        'answer_text', a.answer_text,
+        'answer_options', to_jsonb(a.answer_options)
+      )), '[]'::jsonb)
+      FROM answers a
+      WHERE a.response_id = v_response.id
+    )
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP FUNCTION IF EXISTS public.submit_response(uuid, jsonb, boolean, text, text, text, integer, text);
+
+CREATE OR REPLACE FUNCTION public.submit_response(
+  p_form_id uuid,
+  p_answers jsonb,
+  p_is_complete boolean DEFAULT true,
+  p_user_agent text DEFAULT NULL,
+  p_fingerprint text DEFAULT NULL,
+  p_honeypot text DEFAULT NULL,
+  p_elapsed_ms integer DEFAULT NULL,
+  p_respondent_token text DEFAULT NULL,
+  p_edit_token text DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_response_id uuid := gen_random_uuid();
+  v_ip inet := public.request_ip();
+  v_fingerprint text := nullif(btrim(p_fingerprint), '');
+  v_allow_edits boolean;
+  v_key text;
+  v_existing responses;
+  v_errors jsonb;
+  v_spam_reason text;
+  v_edit_token text;
+BEGIN
+  -- Submissions to the same form wait for each other, so the response cap holds
+  SELECT allow_response_edits INTO v_allow_edits FROM forms WHERE id = p_form_id FOR UPDATE;
+
+  IF NOT public.form_is_open(p_form_id) THEN
+    RAISE EXCEPTION 'This form is not accepting responses' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- An edit link stands in for the respondent's identity
+  IF nullif(btrim(p_edit_token), '') IS NOT NULL THEN
+    SELECT * INTO v_existing
+    FROM responses
+    WHERE form_id = p_form_id
+    AND edit_token_hash = encode(sha256(convert_to(btrim(p_edit_token), 'UTF8')), 'hex');
+
+    IF v_existing.id IS NULL OR NOT v_allow_edits THEN
+      RAISE EXCEPTION 'This edit link is no longer valid' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  ELSE
+    v_key := public.respondent_key(p_form_id, p_respondent_token);
+    IF v_key IS NOT NULL THEN
+      SELECT * INTO v_existing FROM responses WHERE form_id = p_form_id AND respondent_key = v_key;
+    END IF;
+
+    IF v_existing.id IS NOT NULL AND NOT v_allow_edits THEN
+      RAISE EXCEPTION 'You have already responded to this form' USING ERRCODE = 'unique_violation';
+    END IF;
+  END IF;
+
+  IF v_existing.id IS NULL AND NOT public.form_accepts_responses(p_form_id) THEN
+    RAISE EXCEPTION 'This form is not accepting responses' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF (v_ip IS NOT NULL OR v_fingerprint IS NOT NULL) AND (
+    SELECT count(*) FROM responses r
+    WHERE r.form_id = p_form_id
+    AND COALESCE(r.updated_at, r.submitted_at) > now() - interval '10 minutes'
+    -- The fingerprint comes from the client, so it can only add to the address
+    AND (r.ip_address = v_ip OR r.fingerprint = v_fingerprint)
+  ) >= 5 THEN
+    RAISE EXCEPTION 'Too many submissions, please try again later' USING ERRCODE = 'program_limit_exceeded';
+  END IF;
+
+  IF jsonb_typeof(p_answers) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Answers must be a list' USING ERRCODE = 'check_violation';
+  END IF;
+
+  v_errors := public.validate_response(p_form_id, p_answers);
+  IF v_errors <> '{}'::jsonb THEN
+    RAISE EXCEPTION 'Some answers are not valid'
+      USING ERRCODE = 'check_violation', DETAIL = v_errors::text;
+  END IF;
+
+  IF v_allow_edits THEN
+    v_edit_token := replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', '');
+  END IF;
+
+  -- An edit replaces the earlier answers and keeps the original submission time
+  IF v_existing.id IS NOT NULL THEN
+    PERFORM public.replace_response_answers(v_existing.id, p_answers);
+
+    UPDATE responses SET
+      is_complete = COALESCE(p_is_complete, true),
+      user_agent = p_user_agent,
+      updated_at = now(),
+      edit_token_hash = encode(sha256(convert_to(v_edit_token, 'UTF8')), 'hex')
+    WHERE id = v_existing.id;
+
+    RETURN jsonb_build_object('response_id', v_existing.id, 'edit_token', v_edit_token);
+  END IF;
+
+  -- Flagged responses are kept for the owner to review, and the submitter is not told
+  v_spam_reason := CASE
+    WHEN nullif(btrim(p_honeypot), '') IS NOT NULL THEN 'Hidden field was filled in'
+    WHEN p_elapsed_ms IS NULL OR p_elapsed_ms < 3000 THEN 'Completed too quickly'
+  END;
+
+  INSERT INTO responses (
+    id, form_id, user_agent, is_complete, ip_address, fingerprint, is_spam, spam_reason,
+    respondent_key, edit_token_hash
+  )
+  VALUES (
+    v_response_id,
+    p_form_id,
+    p_user_agent,
+    COALESCE(p_is_complete, true),
+    v_ip,
+    v_fingerprint,
+    v_spam_reason IS NOT NULL,
+    v_spam_reason,
+    v_key,
+    encode(sha256(convert_to(v_edit_token, 'UTF8')), 'hex')
+  );
+
+  PERFORM public.insert_response_answers(v_response_id, p_answers);
+
+  RETURN jsonb_build_object('response_id', v_response_id, 'edit_token', v_edit_token);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
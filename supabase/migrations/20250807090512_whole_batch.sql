@@ -0,0 +1,51 @@
+/*
+  # Transactional Response Import
+
+  1. New Functions
+    - `import_responses(p_form_id, p_responses)` - writes a list of imported
+      responses and their answers to one of the caller's forms in a single
+      transaction, returning how many were written. Either every response is
+      imported or none is, so a failed import leaves nothing behind
+
+  2. Security
+    - Runs as invoker: the existing import policies limit it to the caller's
+      own forms, and every answer is still checked by the `validate_answer`
+      trigger
+
+  3. Notes
+    - `p_responses` is an array of objects with `submitted_at`, `is_complete`
+      and `answers`, each answer with `question_id`, `answer_text` and
+      `answer_options`
+*/
+
+CREATE OR REPLACE FUNCTION public.import_responses(p_form_id uuid, p_responses jsonb)
+RETURNS integer AS $$
+DECLARE
+  v_response jsonb;
+  v_response_id uuid;
+  v_count integer := 0;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM forms WHERE id = p_form_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Form not found or you do not have permission to import into it' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF jsonb_typeof(p_responses) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Responses must be a list' USING ERRCODE = 'check_violation';
+  END IF;
+
+  FOR v_response IN SELECT value FROM jsonb_array_elements(p_responses) LOOP
+    INSERT INTO responses (form_id, submitted_at, is_complete)
+    VALUES (
+      p_form_id,
+      COALESCE((v_response->>'submitted_at')::timestamptz, now()),
+      COALESCE((v_response->>'is_complete')::boolean, true)
+    )
+    RETURNING id INTO v_response_id;
+
+    PERFORM public.insert_response_answers(v_response_id, COALESCE(v_response->'answers', '[]'::jsonb));
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;